@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Container class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../symbols";
+import { errors } from "../errors";
+import { logs, logNS } from "../logs";
+import { di } from "./index";
+import construct = symbolsNS.construct;
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+/**
+ * Clock service to inject.
+ */
+class Clock extends logs.Monitorable {}
+
+/**
+ * Service which depends on the clock and the config.
+ */
+class Service extends logs.Monitorable {
+  // fields are assigned in [construct], so they must not be redefined
+  public declare clock: Clock;
+  public declare config: { name: string };
+
+  /**
+   * @override
+   */
+  protected [construct]() {
+    super[construct]();
+    this.clock = di.inject(Clock);
+    this.config = di.inject<{ name: string }>("config");
+  }
+}
+
+describe("Container class", () => {
+  const set: Set<logs.Log> = new Set();
+  let container: di.Container;
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      set.add(log);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+    container = new di.Container();
+    container.register(Clock, { useClass: Clock });
+    container.register("config", { useValue: { name: "test" } });
+    container.register(Service, {
+      useClass: Service,
+      lifetime: di.Lifetime.SCOPED,
+    });
+  });
+
+  test("dependencies are injected in the construct thread", () => {
+    const service = container.resolve(Service);
+    expect(service.clock instanceof Clock).toBeTruthy();
+    expect(service.config).toEqual({ name: "test" });
+    const constructed = [...set].find(
+      (log) =>
+        log.logger.uid === service.uid && log.type === logs.Type.constructed,
+    ) as logs.Log;
+    const resolved = [...set].filter(
+      (log) =>
+        log.type === logs.Type.called &&
+        (log.message as logNS.message.Called).method === "resolve" &&
+        log.thread === constructed.thread,
+    );
+    expect(
+      resolved.map((log) => (log.message as logNS.message.Called).args[0]),
+    ).toEqual(["Clock", "config"]);
+  });
+
+  test("lifetimes are respected", () => {
+    const scope1 = container.createScope();
+    const scope2 = container.createScope();
+    expect(scope1.parent).toEqual(container);
+    expect(scope1.resolve(Service)).toBe(scope1.resolve(Service));
+    expect(scope1.resolve(Service)).not.toBe(scope2.resolve(Service));
+    expect(scope1.resolve(Clock)).toBe(scope2.resolve(Clock));
+    container.register("transient", {
+      useFactory: () => new Clock(),
+      lifetime: di.Lifetime.TRANSIENT,
+    });
+    expect(scope1.resolve("transient")).not.toBe(scope1.resolve("transient"));
+  });
+
+  test("instances are destructed with their containers", () => {
+    const config = { name: "value" };
+    const root = new di.Container();
+    root.register(Clock, { useClass: Clock });
+    root.register("config", { useValue: config });
+    root.register(Service, {
+      useClass: Service,
+      lifetime: di.Lifetime.SCOPED,
+    });
+    root.register("transient", {
+      useFactory: () => new Clock(),
+      lifetime: di.Lifetime.TRANSIENT,
+    });
+    const scope = root.createScope();
+    const service = scope.resolve(Service);
+    const transient = scope.resolve<Clock>("transient");
+    scope.destructor();
+    expect(service.destructed).toBeTruthy();
+    expect(transient.destructed).toBeTruthy();
+    expect(service.clock.destructed).toEqual(false);
+    expect(root.createScope().resolve(Service)).not.toBe(service);
+    root.destructor();
+    expect(service.clock.destructed).toBeTruthy();
+  });
+
+  test("nested scope registration overrides the parent's one", () => {
+    const scope = container.createScope();
+    scope.register("config", { useValue: { name: "scope" } });
+    expect(scope.resolve<{ name: string }>("config").name).toEqual("scope");
+    expect(container.resolve<{ name: string }>("config").name).toEqual("test");
+    expect(scope.has("config")).toBeTruthy();
+    expect(scope.has("unknown")).toBeFalsy();
+  });
+
+  test("circular dependencies are detected", () => {
+    const scope = container.createScope();
+    scope.register("a", { useFactory: () => di.inject("b") });
+    scope.register("b", { useFactory: (c) => c.resolve("a") });
+    expect(() => scope.resolve("a")).toThrow(
+      `[mln-${errors.Code.DEPENDENCY_CIRCULAR}] ${errors.Description.DEPENDENCY_CIRCULAR}`,
+    );
+    const error = [...set].find(
+      (log) =>
+        log.type === logs.Type.error &&
+        (log.message as logNS.message.ErrorLog).code ===
+          errors.Code.DEPENDENCY_CIRCULAR,
+    ) as logs.Log;
+    expect((error.message as logNS.message.ErrorLog).message).toEqual(
+      `${errors.Description.DEPENDENCY_CIRCULAR}: a -> b -> a`,
+    );
+    // resolution stack is restored after the failure
+    scope.register("b", { useValue: "b" });
+    expect(scope.resolve("a")).toEqual("b");
+  });
+
+  test("decorated parent provider is not circular", () => {
+    const scope = container.createScope();
+    container.register("svc", { useValue: "svc" });
+    scope.register("svc", {
+      useFactory: (c) =>
+        `decorated ${(c.parent as di.Container).resolve<string>("svc")}`,
+    });
+    expect(scope.resolve("svc")).toEqual("decorated svc");
+    scope.destructor();
+  });
+
+  test("destructed container throws", () => {
+    const code = `[mln-${errors.Code.DESTRUCTED_USE}] ${errors.Description.DESTRUCTED_USE}`;
+    const scope = container.createScope();
+    scope.destructor();
+    expect(() => scope.register("a", { useValue: "a" })).toThrow(code);
+    expect(() => scope.resolve(Clock)).toThrow(code);
+    expect(() => scope.createScope()).toThrow(code);
+    expect(scope.has("a")).toBeFalsy();
+  });
+
+  test("missed provider and container throw", () => {
+    expect(() => container.resolve("unknown")).toThrow(
+      `[mln-${errors.Code.PROVIDER_MISSED}] ${errors.Description.PROVIDER_MISSED}`,
+    );
+    expect(() => di.inject(Clock)).toThrow(
+      `[mln-${errors.Code.CONTAINER_MISSED}] ${errors.Description.CONTAINER_MISSED}`,
+    );
+    expect(container.run(() => di.inject(Clock))).toBe(
+      container.resolve(Clock),
+    );
+    expect(di.Container.current()).toBeNull();
+  });
+});
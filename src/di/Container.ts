@@ -0,0 +1,368 @@
+/**
+ * @fileoverview Declaration of the Container class and the inject function.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { errors } from "../errors";
+import { symbolsNS } from "../symbols";
+import { logNS } from "../logs";
+import { di as ns } from "./Lifetime";
+export namespace di {
+  import Monitorable = logNS.Monitorable;
+  import Lifetime = ns.Lifetime;
+  import destruct = symbolsNS.destruct;
+  import _parent = symbolsNS._parent;
+  import _providers = symbolsNS._providers;
+  import _instances = symbolsNS._instances;
+  import _owned = symbolsNS._owned;
+  import _scopes = symbolsNS._scopes;
+
+  /**
+   * Dependency token: a string, a symbol or a class.
+   */
+  export type Token<T = unknown> =
+    | string
+    | symbol
+    | (abstract new (...args: never[]) => T);
+
+  /**
+   * Dependency provider: a ready value (which is never destructed by the
+   * container), a class to instantiate or a factory function. Lifetime is
+   * {@link Lifetime.SINGLETON} by default.
+   */
+  export type Provider<T> =
+    | { useValue: T }
+    | { useClass: new () => T; lifetime?: Lifetime }
+    | { useFactory: (container: Container) => T; lifetime?: Lifetime };
+
+  /**
+   * Registered provider.
+   */
+  interface Registration {
+    lifetime: Lifetime;
+    create: (container: Container) => unknown;
+  }
+
+  /**
+   * Running container storage.
+   */
+  const storage: AsyncLocalStorage<Container> = new AsyncLocalStorage();
+
+  /**
+   * Stack of the registrations being resolved with their tokens. Resolution
+   * of the same token through another registration (e.g. the parent's one
+   * decorated in a nested scope) is not circular.
+   */
+  const resolving: Array<[Token, Registration]> = [];
+
+  /**
+   * Returns human-readable name of a given token.
+   * @param token Dependency token.
+   */
+  const getName = (token: Token): string => {
+    if (typeof token === "string") {
+      return token;
+    } else if (typeof token === "symbol") {
+      return token.description || token.toString();
+    } else {
+      return token.name;
+    }
+  };
+
+  /**
+   * Dependency injection container. Registers providers of the dependencies
+   * and resolves them, usually from the symbolic `[construct]` method with
+   * the {@link inject} function, so the resolution is logged in the object
+   * `construct thread`. Instances created by the container are destructed
+   * with the container (see {@link Lifetime}). Nested scopes are created
+   * with the {@link Container.createScope | `createScope`} and are
+   * destructed with their parent container. Using destructed container
+   * throws `DESTRUCTED_USE` error.
+   *
+   * @example
+   * ```typescript
+   * import { di, construct, Monitorable } from "mdln";
+   *
+   * class Service extends Monitorable {
+   *   // assigned in [construct], so it must not be redefined as a field
+   *   public declare clock: Clock;
+   *
+   *   protected [construct](): void {
+   *     super[construct]();
+   *     this.clock = di.inject(Clock);
+   *   }
+   * }
+   *
+   * const container = new di.Container();
+   * container.register(Clock, { useClass: SystemClock });
+   * container.register(Service, {
+   *   useClass: Service,
+   *   lifetime: di.Lifetime.SCOPED,
+   * });
+   * const scope = container.createScope();
+   * const service = scope.resolve(Service);
+   * scope.destructor(); // service is destructed here
+   * ```
+   */
+  export class Container extends Monitorable {
+    /**
+     * Parent container, `null` for the root one.
+     */
+    private [_parent]: null | Container = null;
+
+    /**
+     * Registered providers.
+     */
+    private [_providers]: Map<Token, Registration> = new Map();
+
+    /**
+     * Cached singleton and scoped instances.
+     */
+    private [_instances]: Map<Token, unknown> = new Map();
+
+    /**
+     * Instances to destruct with the container, in the order of creation.
+     */
+    private [_owned]: Array<Monitorable> = [];
+
+    /**
+     * Nested scopes.
+     */
+    private [_scopes]: Array<Container> = [];
+
+    /**
+     * Returns currently running container, `null` if there is no one.
+     */
+    static current(): null | Container {
+      return storage.getStore() || null;
+    }
+
+    /**
+     * Parent container, `null` for the root one.
+     */
+    get parent(): null | Container {
+      return this[_parent];
+    }
+
+    /**
+     * Registers provider of a given token. Registration in a nested scope
+     * overrides the parent's one.
+     * @param token Dependency token.
+     * @param provider Dependency provider.
+     */
+    register<T>(token: Token<T>, provider: Provider<T>): this {
+      logNS.assertUndestructed(this, "register");
+      let registration: Registration;
+      if ("useValue" in provider) {
+        registration = {
+          lifetime: Lifetime.SINGLETON,
+          create: () => provider.useValue,
+        };
+        this[_instances].set(token, provider.useValue);
+      } else if ("useClass" in provider) {
+        registration = {
+          lifetime: provider.lifetime || Lifetime.SINGLETON,
+          create: () => new provider.useClass(),
+        };
+        this[_instances].delete(token);
+      } else {
+        registration = {
+          lifetime: provider.lifetime || Lifetime.SINGLETON,
+          create: provider.useFactory,
+        };
+        this[_instances].delete(token);
+      }
+      this[_providers].set(token, registration);
+      this.logger.debug(() =>
+        logNS.message.getCalled(
+          `container[${this.uid}]`,
+          "Container",
+          "register",
+          [getName(token), registration.lifetime],
+        ),
+      );
+      return this;
+    }
+
+    /**
+     * Whether provider of a given token is registered in the container or in
+     * its parents.
+     * @param token Dependency token.
+     */
+    has(token: Token): boolean {
+      return this.lookup(token) !== null;
+    }
+
+    /**
+     * Resolves instance of a given token. Resolution is logged in the current
+     * thread. Throws `PROVIDER_MISSED` error if there is no provider of the
+     * token and `DEPENDENCY_CIRCULAR` error if the token provider depends on
+     * itself (the logged error contains the token name or the dependency
+     * path).
+     * @param token Dependency token.
+     */
+    resolve<T>(token: Token<T>): T {
+      logNS.assertUndestructed(this, "resolve");
+      const found = this.lookup(token);
+      if (found === null) {
+        const message = `${errors.Description.PROVIDER_MISSED}: ${getName(
+          token,
+        )}`;
+        this.logger.error(
+          logNS.message.getError(errors.Code.PROVIDER_MISSED, message),
+        );
+        throw new errors.Error(
+          errors.Code.PROVIDER_MISSED,
+          errors.Description.PROVIDER_MISSED,
+        );
+      }
+      const [owner, registration] = found;
+      this.logger.debug(() =>
+        logNS.message.getCalled(
+          `container[${this.uid}]`,
+          "Container",
+          "resolve",
+          [getName(token), registration.lifetime],
+        ),
+      );
+
+      // singletons are held by the registering container, so they don't
+      // capture dependencies of the nested scopes
+      const host = registration.lifetime === Lifetime.SINGLETON ? owner : this;
+      if (
+        registration.lifetime !== Lifetime.TRANSIENT &&
+        host[_instances].has(token)
+      ) {
+        return host[_instances].get(token) as T;
+      }
+      const index = resolving.findIndex(([, item]) => item === registration);
+      if (index !== -1) {
+        const path = [...resolving.slice(index).map(([item]) => item), token]
+          .map(getName)
+          .join(" -> ");
+        const message = `${errors.Description.DEPENDENCY_CIRCULAR}: ${path}`;
+        this.logger.error(
+          logNS.message.getError(errors.Code.DEPENDENCY_CIRCULAR, message),
+        );
+        throw new errors.Error(
+          errors.Code.DEPENDENCY_CIRCULAR,
+          errors.Description.DEPENDENCY_CIRCULAR,
+        );
+      }
+      resolving.push([token, registration]);
+      let instance: T;
+      try {
+        instance = storage.run(host, () => registration.create(host)) as T;
+      } finally {
+        resolving.pop();
+      }
+      if (registration.lifetime !== Lifetime.TRANSIENT) {
+        host[_instances].set(token, instance);
+      }
+      if (instance instanceof Monitorable) {
+        host[_owned] = host[_owned].filter((obj) => !obj.destructed);
+        host[_owned].push(instance);
+      }
+      return instance;
+    }
+
+    /**
+     * Creates nested scope, which is destructed with the container.
+     */
+    createScope(): Container {
+      logNS.assertUndestructed(this, "createScope");
+      const scope = new Container();
+      scope[_parent] = this;
+      this[_scopes].push(scope);
+      this.logger.debug(() =>
+        logNS.message.getCalled(
+          `container[${this.uid}]`,
+          "Container",
+          "createScope",
+          [scope.uid],
+        ),
+      );
+      return scope;
+    }
+
+    /**
+     * Runs callback within the container, so the {@link inject} calls made
+     * by it (including asynchronous continuations) resolve from this
+     * container. Returns callback result.
+     * @param callback Function to run.
+     */
+    run<T>(callback: () => T): T {
+      return storage.run(this, callback);
+    }
+
+    /**
+     * Destructs nested scopes and owned instances in reverse order. If one
+     * of them fails, the rest stays owned and the container destruction
+     * could be retried.
+     *
+     * @override
+     */
+    protected [destruct](): void {
+      this.logger.trace(() =>
+        logNS.message.getCheckpoint("destruct", "Container"),
+      );
+      const scopes = this[_scopes];
+      while (scopes.length) {
+        // scope removes itself from the list
+        scopes[scopes.length - 1].destructor();
+      }
+      const owned = this[_owned];
+      while (owned.length) {
+        const obj = owned[owned.length - 1];
+        if (!obj.destructed) {
+          obj.destructor();
+        }
+        owned.pop();
+      }
+      this[_instances].clear();
+      const parent = this[_parent];
+      if (parent) {
+        parent[_scopes].splice(parent[_scopes].indexOf(this), 1);
+      }
+      super[destruct]();
+    }
+
+    /**
+     * Returns container which registers provider of a given token and the
+     * registered provider, `null` if there is no one.
+     * @param token Dependency token.
+     */
+    private lookup(token: Token): null | [Container, Registration] {
+      let container: null | Container;
+      container = this;
+      while (container) {
+        const registration = container[_providers].get(token);
+        if (registration) {
+          return [container, registration];
+        }
+        container = container[_parent];
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Resolves instance of a given token from the running container (see
+   * {@link Container.run} and {@link Container.resolve}). Throws
+   * `CONTAINER_MISSED` error if there is no running container.
+   * @param token Dependency token.
+   */
+  export const inject = <T>(token: Token<T>): T => {
+    const container = Container.current();
+    if (!container) {
+      throw new errors.Error(
+        errors.Code.CONTAINER_MISSED,
+        errors.Description.CONTAINER_MISSED,
+      );
+    }
+    return container.resolve(token);
+  };
+}
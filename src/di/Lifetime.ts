@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Declaration of the Lifetime enum.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+export namespace di {
+  /**
+   * Lifetimes of the resolved instances.
+   *
+   * - `SINGLETON` - one instance per container where the provider is
+   * registered, destructed with this container.
+   * - `SCOPED` - one instance per resolving container scope (see
+   * {@link Container.createScope}), destructed with the scope.
+   * - `TRANSIENT` - new instance per resolution, destructed with the
+   * resolving container scope if it isn't destructed before.
+   */
+  export enum Lifetime {
+    SINGLETON = "singleton",
+    SCOPED = "scoped",
+    TRANSIENT = "transient",
+  }
+}
@@ -0,0 +1,22 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the di namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { di as ns0 } from "./Lifetime";
+import { di as ns1 } from "./Container";
+
+/**
+ * Namespace that provides dependency injection related types.
+ */
+export namespace di {
+  export import Lifetime = ns0.Lifetime;
+  export import Token = ns1.Token;
+  export import Provider = ns1.Provider;
+  export import Container = ns1.Container;
+  export import inject = ns1.inject;
+}
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Declaration of the AggregateError class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../symbols";
+import { errors as ns0 } from "./Code";
+import { errors as ns1 } from "./Description";
+import { errors as ns2 } from "./Error";
+export namespace errors {
+  import _errors = symbolsNS._errors;
+  import Code = ns0.Code;
+  import Description = ns1.Description;
+  import mln_Error = ns2.mln_Error;
+
+  /**
+   * `mln`-error which wraps several errors occurred during a single
+   * operation (e.g. destruction of the nodes subtree).
+   */
+  export class mln_AggregateError extends mln_Error {
+    private [_errors]: Array<unknown>;
+    public get errors(): Array<unknown> {
+      return [...this[_errors]];
+    }
+    public constructor(
+      code: Code,
+      description: Description,
+      errors: Array<unknown>,
+    ) {
+      super(code, description);
+      this[_errors] = [...errors];
+    }
+  }
+}
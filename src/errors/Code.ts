@@ -18,5 +18,21 @@ export namespace errors {
     LISTENERS_MAP_MISSED = 6,
     NODE_INDEX_MISSED = 7,
     NODE_CHILD_MISSED = 8,
+    LOG_FORMAT = 9,
+    TRACE_EXPORT = 10,
+    CONSTRUCT_ASYNC = 11,
+    DESTRUCT_ASYNC = 12,
+    DESTRUCT_TIMEOUT = 13,
+    DESTRUCT_SCOPE = 14,
+    DESTRUCT_PARTIAL = 15,
+    DEPENDENCY_CIRCULAR = 16,
+    PROVIDER_MISSED = 17,
+    CONTAINER_MISSED = 18,
+    RECYCLE_CALL = 19,
+    RESET_IMPL = 20,
+    DESTRUCTED_USE = 21,
+    DESTRUCT_CYCLE = 22,
+    POOL_FACTORY_MISSED = 23,
+    POOL_FOREIGN_OBJECT = 24,
   }
 }
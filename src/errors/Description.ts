@@ -18,5 +18,24 @@ export namespace errors {
     LISTENERS_MAP_MISSED = "listeners map is missed",
     NODE_INDEX_MISSED = "index is missed for a given node",
     NODE_CHILD_MISSED = "given child is missed in the node's children list",
+
+    LOG_FORMAT = "unsupported log wire format",
+    TRACE_EXPORT = "trace collector rejected exported spans",
+    CONSTRUCT_ASYNC = "asynchronous construction failed",
+    DESTRUCT_ASYNC = "asynchronous destruction failed",
+    DESTRUCT_TIMEOUT = "asynchronous destruction timed out",
+    DESTRUCT_SCOPE = "destruction of the scope objects failed",
+    DESTRUCT_PARTIAL = "destruction failed, object state is rolled back",
+
+    DEPENDENCY_CIRCULAR = "circular dependency is detected",
+    PROVIDER_MISSED = "provider is missed for a given token",
+    CONTAINER_MISSED = "there is no running container to resolve from",
+
+    RECYCLE_CALL = "only destructed object could be recycled",
+    RESET_IMPL = "super[reset] call wasn't implemented",
+    DESTRUCTED_USE = "object is used after destruction",
+    DESTRUCT_CYCLE = "destruct-order dependencies form a cycle",
+    POOL_FACTORY_MISSED = "factory of the pooled objects is missed",
+    POOL_FOREIGN_OBJECT = "released object isn't an instance of the pool factory",
   }
 }
@@ -10,6 +10,7 @@
 import { errors as ns0 } from "./Code";
 import { errors as ns1 } from "./Description";
 import { errors as ns2 } from "./Error";
+import { errors as ns3 } from "./AggregateError";
 
 /**
  * Namespace that provides errors related types.
@@ -18,4 +19,5 @@ export namespace errors {
   export import Code = ns0.Code;
   export import Description = ns1.Description;
   export import Error = ns2.mln_Error;
+  export import AggregateError = ns3.mln_AggregateError;
 }
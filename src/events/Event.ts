@@ -135,7 +135,7 @@ export namespace events {
     stop(): void {
       if (!this[_binder].passive) {
         this[_binder].stopped = new Date();
-        this.source.logger.debug(
+        this.source.logger.debug(() =>
           log.message.getCalled(`binder`, "Binder", "stopped", [
             (this[_binder].stopped as Date).toUTCString(),
           ]),
@@ -151,7 +151,7 @@ export namespace events {
     prevent(): void {
       if (!this[_binder].passive) {
         this[_binder].prevented = new Date();
-        this.source.logger.debug(
+        this.source.logger.debug(() =>
           log.message.getCalled(`binder`, "Binder", "prevented", [
             (this[_binder].prevented as Date).toUTCString(),
           ]),
@@ -21,14 +21,24 @@ export namespace events {
   import construct = symbolsNS.construct;
   import destruct = symbolsNS.destruct;
   import getUid = logNS.getUid;
+  import WeakKeyMap = logNS.leaks.WeakKeyMap;
 
   /**
-   * Map of the listenable object listeners maps.
+   * Structured snapshot of the {@link Listenable} object state. Extends the
+   * monitorable snapshot with the number of active listeners per event type.
+   */
+  export interface ListenableSnapshot extends logNS.Snapshot {
+    listeners: { [eventType: string]: number };
+  }
+
+  /**
+   * Map of the listenable object listeners maps. Keys are held weakly, so it
+   * doesn't prevent garbage collection of the never destructed objects.
    */
   export const listeners: Map<
     Listenable,
     Map<string, Array<Listener>>
-  > = new Map();
+  > = new WeakKeyMap();
 
   /**
    * Returns listeners map for a given mdln-object.
@@ -54,7 +64,8 @@ export namespace events {
   }
 
   /**
-   * Map of the nodes indexes.
+   * Map of the nodes indexes. Keys are held weakly, so it doesn't prevent
+   * garbage collection of the never destructed objects.
    */
   export const nodes: Map<
     Listenable,
@@ -62,7 +73,7 @@ export namespace events {
       parent?: Listenable;
       children: Array<Listenable>;
     }
-  > = new Map();
+  > = new WeakKeyMap();
 
   /**
    * Returns ancestors for a given mdln-object.
@@ -116,7 +127,7 @@ export namespace events {
           // align binder
           if (binder.passive !== listener.passive) {
             binder.passive = listener.passive;
-            event.source.logger.debug(
+            event.source.logger.debug(() =>
               logNS.message.getCalled(`binder`, "Binder", "passive", [
                 binder.passive,
               ]),
@@ -124,7 +135,7 @@ export namespace events {
           }
 
           // run callback
-          event.source.logger.trace(
+          event.source.logger.trace(() =>
             logNS.message.getCheckpoint(
               "start",
               `listener[${event.handler.uid}, ${event.type}, ${getUid(
@@ -133,7 +144,7 @@ export namespace events {
             ),
           );
           listener.callback.call(undefined, event);
-          event.source.logger.trace(
+          event.source.logger.trace(() =>
             logNS.message.getCheckpoint(
               "end",
               `listener[${event.handler.uid}, ${event.type}, ${getUid(
@@ -169,7 +180,7 @@ export namespace events {
   ): boolean {
     // construct an event binder
     const binder = new Binder(Phase.NONE, node, node);
-    node.logger.debug(
+    node.logger.debug(() =>
       logNS.message.getCalled(`binder`, "Binder", "constructor", [
         Phase.NONE,
         `{${node.uid}}`,
@@ -179,7 +190,7 @@ export namespace events {
 
     // construct an event
     const event = new Event(type, binder, scope);
-    node.logger.debug(
+    node.logger.debug(() =>
       logNS.message.getCalled(`event`, "Event", "constructor", [
         type,
         "{binder}",
@@ -193,11 +204,11 @@ export namespace events {
     // run capturing phase cycle
     for (let i = ancestors.length - 1; i >= 0; i--) {
       binder.phase = Phase.CAPTURING_PHASE;
-      node.logger.debug(
+      node.logger.debug(() =>
         logNS.message.getCalled(`binder`, "Binder", "phase", [binder.phase]),
       );
       binder.handler = ancestors[i];
-      node.logger.debug(
+      node.logger.debug(() =>
         logNS.message.getCalled(`binder`, "Binder", "handler", [
           `{${binder.handler.uid}}`,
         ]),
@@ -208,11 +219,11 @@ export namespace events {
     // run capturing at target if event wasn't stoped
     if (!binder.stopped) {
       binder.phase = Phase.AT_TARGET;
-      node.logger.debug(
+      node.logger.debug(() =>
         logNS.message.getCalled(`binder`, "Binder", "phase", [binder.phase]),
       );
       binder.handler = node;
-      node.logger.debug(
+      node.logger.debug(() =>
         logNS.message.getCalled(`binder`, "Binder", "handler", [
           `{${binder.handler.uid}}`,
         ]),
@@ -229,11 +240,11 @@ export namespace events {
     if (!binder.stopped) {
       for (let i = 0; !binder.stopped && i < ancestors.length; i++) {
         binder.phase = Phase.BUBBLING_PHASE;
-        node.logger.debug(
+        node.logger.debug(() =>
           logNS.message.getCalled(`binder`, "Binder", "phase", [binder.phase]),
         );
         binder.handler = ancestors[i];
-        node.logger.debug(
+        node.logger.debug(() =>
           logNS.message.getCalled(`binder`, "Binder", "handler", [
             `{${binder.handler.uid}}`,
           ]),
@@ -244,7 +255,7 @@ export namespace events {
 
     // unset event phase
     binder.phase = Phase.NONE;
-    node.logger.debug(
+    node.logger.debug(() =>
       logNS.message.getCalled(`binder`, "Binder", "phase", [binder.phase]),
     );
     return !binder.stopped;
@@ -264,18 +275,22 @@ export namespace events {
    * Extends {@link Destructible | `Destructible`} and
    * {@link Monitorable | `Monitorable`} behavior. You may subclass this class to
    * turn your class into a monitorable, destructible and listenable object.
+   *
+   * Methods of the destructed object throw the `DESTRUCTED_USE` error.
    */
-  export class Listenable extends Monitorable {
+  export class Listenable<Options = unknown> extends Monitorable<Options> {
     /**
      * @override
      */
-    protected [construct](): void {
-      super[construct]();
-      this.logger.trace(logNS.message.getCheckpoint("construct", "Listenable"));
+    protected [construct](options?: Options): void {
+      super[construct](options);
+      this.logger.trace(() =>
+        logNS.message.getCheckpoint("construct", "Listenable"),
+      );
 
       // create and add new listeners map to the internal listeners maps map
       listeners.set(this, new Map());
-      this.logger.debug(
+      this.logger.debug(() =>
         logNS.message.getCalled(
           `listenersMap[${this.uid}]`,
           "Map",
@@ -283,7 +298,7 @@ export namespace events {
           [],
         ),
       );
-      this.logger.debug(
+      this.logger.debug(() =>
         logNS.message.getCalled(
           `listeners`,
           "Map",
@@ -298,11 +313,13 @@ export namespace events {
      * @override
      */
     protected [destruct](): void {
-      this.logger.trace(logNS.message.getCheckpoint("destruct", "Listenable"));
+      this.logger.trace(() =>
+        logNS.message.getCheckpoint("destruct", "Listenable"),
+      );
 
       // delete listeners map from the internal listeners maps map
       listeners.delete(this);
-      this.logger.debug(
+      this.logger.debug(() =>
         logNS.message.getCalled(
           `listeners`,
           "Map",
@@ -314,6 +331,23 @@ export namespace events {
       super[destruct]();
     }
 
+    /**
+     * @override
+     */
+    public inspect(): ListenableSnapshot {
+      const counts: { [eventType: string]: number } = {};
+      const listenersMap = listeners.get(this);
+      if (listenersMap) {
+        listenersMap.forEach((eventListeners, eventType) => {
+          const count = eventListeners.filter((l) => !l.removed).length;
+          if (count) {
+            counts[eventType] = count;
+          }
+        });
+      }
+      return { ...super.inspect(), listeners: counts };
+    }
+
     /**
      * Adds an event listener. A listener can only be added once to an object and
      * if it is added again only `passive` and `once` options are applied to the
@@ -338,146 +372,147 @@ export namespace events {
         once?: boolean;
       },
     ): void {
-      logNS.thread.start();
-
-      // parse options
-      const opts = {
-        capture: false,
-        passive: false,
-        once: false,
-      };
-      if (options) {
-        opts.capture = !!options.capture;
-        opts.passive = !!options.passive;
-        opts.once = !!options.once;
-      }
-      this.logger.trace(
-        logNS.message.getCheckpoint(
-          "listen",
-          JSON.stringify({
-            eventType: eventType,
-            callback: getUid(callback),
-            options: opts,
-          }),
-        ),
-      );
+      logNS.assertUndestructed(this, "listen");
+      logNS.thread.run(() => {
+        // parse options
+        const opts = {
+          capture: false,
+          passive: false,
+          once: false,
+        };
+        if (options) {
+          opts.capture = !!options.capture;
+          opts.passive = !!options.passive;
+          opts.once = !!options.once;
+        }
+        this.logger.trace(() =>
+          logNS.message.getCheckpoint(
+            "listen",
+            JSON.stringify({
+              eventType: eventType,
+              callback: getUid(callback),
+              options: opts,
+            }),
+          ),
+        );
 
-      // get object's listeners map
-      const listenersMap = listeners.get(this);
-      if (typeof listenersMap === "undefined") {
-        // TODO (buntarb): cleaning up logic here?
-        this.logger.error(
-          logNS.message.getError(
+        // get object's listeners map
+        const listenersMap = listeners.get(this);
+        if (typeof listenersMap === "undefined") {
+          // TODO (buntarb): cleaning up logic here?
+          this.logger.error(
+            logNS.message.getError(
+              errors.Code.LISTENERS_MAP_MISSED,
+              errors.Description.LISTENERS_MAP_MISSED,
+            ),
+          );
+          throw new errors.Error(
             errors.Code.LISTENERS_MAP_MISSED,
             errors.Description.LISTENERS_MAP_MISSED,
-          ),
-        );
-        logNS.thread.stop();
-        throw new errors.Error(
-          errors.Code.LISTENERS_MAP_MISSED,
-          errors.Description.LISTENERS_MAP_MISSED,
-        );
-      }
+          );
+        }
 
-      // initialise listener variable, get listeners array for the given event
-      // type
-      let listener = null;
-      let eventListeners = listenersMap.get(eventType) as Array<Listener>;
-
-      // construct and add listeners array if not exists
-      if (!eventListeners) {
-        eventListeners = [];
-        this.logger.debug(
-          logNS.message.getCalled(
-            `eventListeners[${this.uid}, ${eventType}]`,
-            "Array",
-            "constructor",
-            [],
-          ),
-        );
-        listenersMap.set(eventType, eventListeners);
-        this.logger.debug(
-          logNS.message.getCalled(`listenersMap[${this.uid}]`, "Map", "set", [
-            eventType,
-            `{eventListeners[${this.uid}, ${eventType}]}`,
-          ]),
-        );
-      }
+        // initialise listener variable, get listeners array for the given event
+        // type
+        let listener: null | Listener = null;
+        let eventListeners = listenersMap.get(eventType) as Array<Listener>;
 
-      // find and update (if exists and not removed) a listener equivalent to the
-      // specified in arguments
-      for (let i = 0; i < eventListeners.length; i++) {
-        if (
-          !eventListeners[i].removed &&
-          eventListeners[i].callback === callback &&
-          eventListeners[i].capture === opts.capture
-        ) {
-          listener = eventListeners[i];
-          listener.passive = opts.passive;
-          this.logger.debug(
+        // construct and add listeners array if not exists
+        if (!eventListeners) {
+          eventListeners = [];
+          this.logger.debug(() =>
             logNS.message.getCalled(
-              `listener[${this.uid}, ${eventType}, ${getUid(callback)}, ${
-                opts.capture ? "capture" : "bubble"
-              }]`,
-              "Listener",
-              "passive",
-              [listener.passive],
+              `eventListeners[${this.uid}, ${eventType}]`,
+              "Array",
+              "constructor",
+              [],
             ),
           );
-          listener.once = opts.once;
-          this.logger.debug(
+          listenersMap.set(eventType, eventListeners);
+          this.logger.debug(() =>
+            logNS.message.getCalled(`listenersMap[${this.uid}]`, "Map", "set", [
+              eventType,
+              `{eventListeners[${this.uid}, ${eventType}]}`,
+            ]),
+          );
+        }
+
+        // find and update (if exists and not removed) a listener equivalent to the
+        // specified in arguments
+        for (let i = 0; i < eventListeners.length; i++) {
+          if (
+            !eventListeners[i].removed &&
+            eventListeners[i].callback === callback &&
+            eventListeners[i].capture === opts.capture
+          ) {
+            const existing = eventListeners[i];
+            listener = existing;
+            existing.passive = opts.passive;
+            this.logger.debug(() =>
+              logNS.message.getCalled(
+                `listener[${this.uid}, ${eventType}, ${getUid(callback)}, ${
+                  opts.capture ? "capture" : "bubble"
+                }]`,
+                "Listener",
+                "passive",
+                [existing.passive],
+              ),
+            );
+            existing.once = opts.once;
+            this.logger.debug(() =>
+              logNS.message.getCalled(
+                `listener[${this.uid}, ${eventType}, ${getUid(callback)}, ${
+                  opts.capture ? "capture" : "bubble"
+                }]`,
+                "Listener",
+                "once",
+                [existing.once],
+              ),
+            );
+          }
+        }
+
+        // construct new listener and add it to the listeners array
+        if (!listener) {
+          const created = new Listener(
+            callback,
+            opts.capture,
+            opts.passive,
+            false,
+            opts.once,
+          );
+          listener = created;
+          this.logger.debug(() =>
             logNS.message.getCalled(
               `listener[${this.uid}, ${eventType}, ${getUid(callback)}, ${
                 opts.capture ? "capture" : "bubble"
               }]`,
               "Listener",
-              "once",
-              [listener.once],
+              "constructor",
+              [
+                created.callback.toString(),
+                created.capture,
+                created.passive,
+                created.removed,
+                created.once,
+              ],
+            ),
+          );
+          eventListeners.push(listener);
+          this.logger.debug(() =>
+            logNS.message.getCalled(
+              `eventListeners[${this.uid}, ${eventType}]`,
+              "Array",
+              "push",
+              [
+                `{listener[${this.uid}, ${eventType}, ${getUid(callback)}, ${
+                  opts.capture ? "capture" : "bubble"
+                }]}`,
+              ],
             ),
           );
         }
-      }
-
-      // construct new listener and add it to the listeners array
-      if (!listener) {
-        listener = new Listener(
-          callback,
-          opts.capture,
-          opts.passive,
-          false,
-          opts.once,
-        );
-        this.logger.debug(
-          logNS.message.getCalled(
-            `listener[${this.uid}, ${eventType}, ${getUid(callback)}, ${
-              opts.capture ? "capture" : "bubble"
-            }]`,
-            "Listener",
-            "constructor",
-            [
-              listener.callback.toString(),
-              listener.capture,
-              listener.passive,
-              listener.removed,
-              listener.once,
-            ],
-          ),
-        );
-        eventListeners.push(listener);
-        this.logger.debug(
-          logNS.message.getCalled(
-            `eventListeners[${this.uid}, ${eventType}]`,
-            "Array",
-            "push",
-            [
-              `{listener[${this.uid}, ${eventType}, ${getUid(callback)}, ${
-                opts.capture ? "capture" : "bubble"
-              }]}`,
-            ],
-          ),
-        );
-      }
-      logNS.thread.stop();
+      });
     }
 
     /**
@@ -497,90 +532,89 @@ export namespace events {
         capture?: boolean;
       },
     ): void {
-      logNS.thread.start();
-
-      // parse options
-      const opts = {
-        capture: false,
-      };
-      if (options) {
-        opts.capture = !!options.capture;
-      }
-      this.logger.trace(
-        logNS.message.getCheckpoint(
-          "unlisten",
-          JSON.stringify({
-            eventType: eventType,
-            callback: getUid(callback),
-            options: opts,
-          }),
-        ),
-      );
+      logNS.assertUndestructed(this, "unlisten");
+      logNS.thread.run(() => {
+        // parse options
+        const opts = {
+          capture: false,
+        };
+        if (options) {
+          opts.capture = !!options.capture;
+        }
+        this.logger.trace(() =>
+          logNS.message.getCheckpoint(
+            "unlisten",
+            JSON.stringify({
+              eventType: eventType,
+              callback: getUid(callback),
+              options: opts,
+            }),
+          ),
+        );
 
-      // get object's listeners map
-      const listenersMap = listeners.get(this);
-      if (typeof listenersMap === "undefined") {
-        this.logger.error(
-          logNS.message.getError(
+        // get object's listeners map
+        const listenersMap = listeners.get(this);
+        if (typeof listenersMap === "undefined") {
+          this.logger.error(
+            logNS.message.getError(
+              errors.Code.LISTENERS_MAP_MISSED,
+              errors.Description.LISTENERS_MAP_MISSED,
+            ),
+          );
+          throw new errors.Error(
             errors.Code.LISTENERS_MAP_MISSED,
             errors.Description.LISTENERS_MAP_MISSED,
-          ),
-        );
-        logNS.thread.stop();
-        throw new errors.Error(
-          errors.Code.LISTENERS_MAP_MISSED,
-          errors.Description.LISTENERS_MAP_MISSED,
-        );
-      }
+          );
+        }
 
-      // get listeners array for the given event type
-      const eventListeners = listenersMap.get(eventType) as Array<Listener>;
-      if (eventListeners) {
-        // find and remove (if exists and not removed) a listener equivalent to
-        // the specified in arguments
-        for (let i = 0; i < eventListeners.length; i++) {
-          if (
-            !eventListeners[i].removed &&
-            eventListeners[i].callback === callback &&
-            eventListeners[i].capture === opts.capture
-          ) {
-            eventListeners[i].removed = true;
-            this.logger.debug(
-              logNS.message.getCalled(
-                `listener[${this.uid}, ${eventType}, ${getUid(callback)}, ${
-                  opts.capture ? "capture" : "bubble"
-                }]`,
-                "Listener",
-                "removed",
-                [eventListeners[i].removed],
-              ),
-            );
-            eventListeners.splice(i, 1);
-            this.logger.debug(
+        // get listeners array for the given event type
+        const eventListeners = listenersMap.get(eventType) as Array<Listener>;
+        if (eventListeners) {
+          // find and remove (if exists and not removed) a listener equivalent to
+          // the specified in arguments
+          for (let i = 0; i < eventListeners.length; i++) {
+            if (
+              !eventListeners[i].removed &&
+              eventListeners[i].callback === callback &&
+              eventListeners[i].capture === opts.capture
+            ) {
+              eventListeners[i].removed = true;
+              this.logger.debug(() =>
+                logNS.message.getCalled(
+                  `listener[${this.uid}, ${eventType}, ${getUid(callback)}, ${
+                    opts.capture ? "capture" : "bubble"
+                  }]`,
+                  "Listener",
+                  "removed",
+                  [eventListeners[i].removed],
+                ),
+              );
+              eventListeners.splice(i, 1);
+              this.logger.debug(() =>
+                logNS.message.getCalled(
+                  `eventListeners[${this.uid}, ${eventType}]`,
+                  "Array",
+                  "splice",
+                  [i, 1],
+                ),
+              );
+            }
+          }
+
+          // remove listeners array for the given event type if it's empty
+          if (eventListeners.length === 0) {
+            listenersMap.delete(eventType);
+            this.logger.debug(() =>
               logNS.message.getCalled(
-                `eventListeners[${this.uid}, ${eventType}]`,
-                "Array",
-                "splice",
-                [i, 1],
+                `listenersMap<${this.uid}>`,
+                "Map",
+                "delete",
+                [eventType],
               ),
             );
           }
         }
-
-        // remove listeners array for the given event type if it's empty
-        if (eventListeners.length === 0) {
-          listenersMap.delete(eventType);
-          this.logger.debug(
-            logNS.message.getCalled(
-              `listenersMap<${this.uid}>`,
-              "Map",
-              "delete",
-              [eventType],
-            ),
-          );
-        }
-      }
-      logNS.thread.stop();
+      });
     }
 
     /**
@@ -599,23 +633,21 @@ export namespace events {
      * @param eventScope User defined data associated with the event.
      */
     dispatch(eventType: string, eventScope?: unknown): boolean {
-      logNS.thread.start();
-      this.logger.trace(
-        logNS.message.getCheckpoint(
-          "dispatch",
-          JSON.stringify({
-            eventType,
-            eventScope: eventScope ? "scope" : undefined,
-          }),
-        ),
-      );
+      logNS.assertUndestructed(this, "dispatch");
+      return logNS.thread.run(() => {
+        this.logger.trace(() =>
+          logNS.message.getCheckpoint(
+            "dispatch",
+            JSON.stringify({
+              eventType,
+              eventScope: eventScope ? "scope" : undefined,
+            }),
+          ),
+        );
 
-      // safe call of existing listeners
-      try {
+        // safe call of existing listeners
         return dispatchEvent(this, eventType, eventScope);
-      } finally {
-        logNS.thread.stop();
-      }
+      });
     }
   }
 }
@@ -16,6 +16,7 @@ import { events as ns3 } from "./Listenable";
  */
 export namespace events {
   export import Listenable = ns3.Listenable;
+  export import ListenableSnapshot = ns3.ListenableSnapshot;
   export import Event = ns0.Event;
   export import Phase = ns1.Phase;
 }
@@ -25,5 +26,6 @@ export namespace eventsNS {
   export import Phase = ns1.Phase;
   export import Listener = ns2.Listener;
   export import Listenable = ns3.Listenable;
+  export import ListenableSnapshot = ns3.ListenableSnapshot;
   export import nodes = ns3.nodes;
 }
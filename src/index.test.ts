@@ -7,6 +7,7 @@
 
 import * as regular_import from "./index";
 import default_import from "./index";
+import { di } from "./di";
 import { errors } from "./errors";
 import { events } from "./events";
 import { logs } from "./logs";
@@ -19,6 +20,12 @@ describe("Package's export test suite", () => {
   test("default export object is defined", () => {
     expect(default_import).toBeDefined();
   });
+  test("di namespace is exported", () => {
+    expect(Object.keys(regular_import)).toContain("di");
+    expect(Object.keys(default_import)).toContain("di");
+    expect(regular_import.di).toEqual(default_import.di);
+    expect(regular_import.di).toEqual(di);
+  });
   test("errors namespace is exported", () => {
     expect(Object.keys(regular_import)).toContain("errors");
     expect(Object.keys(default_import)).toContain("errors");
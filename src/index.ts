@@ -11,11 +11,24 @@ import { errors } from "./errors";
 import { logs, logNS } from "./logs";
 import { events, eventsNS } from "./events";
 import { tree } from "./tree";
+import { di } from "./di";
 import { symbols } from "./symbols";
 import Monitorable = logNS.Monitorable;
 import Listenable = eventsNS.Listenable;
 import Node = tree.Node;
 export default {
+  di,
+  errors,
+  events,
+  logs,
+  symbols,
+  tree,
+  Monitorable,
+  Listenable,
+  Node,
+};
+export {
+  di,
   errors,
   events,
   logs,
@@ -25,4 +38,3 @@ export default {
   Listenable,
   Node,
 };
-export { errors, events, logs, symbols, tree, Monitorable, Listenable, Node };
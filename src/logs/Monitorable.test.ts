@@ -11,6 +11,9 @@ import { logs, logNS } from "./index";
 import { message } from "./message";
 import construct = symbolsNS.construct;
 import destruct = symbolsNS.destruct;
+import constructAsync = symbolsNS.constructAsync;
+import destructAsync = symbolsNS.destructAsync;
+import redact = symbolsNS.redact;
 
 /**
  * Logs buffer class for tests.
@@ -2225,7 +2228,7 @@ describe("WrongMonitorable class destructor call throw", () => {
 
   test("destruct thread is logged", () => {
     expect(add).toHaveBeenCalled();
-    expect(set.size).toEqual(19);
+    expect(set.size).toEqual(21);
     iter = set.values();
     for (let i = 0; i < 15; i++) {
       iter.next();
@@ -2365,6 +2368,59 @@ describe("WrongMonitorable class destructor call throw", () => {
     );
   });
 
+  test("_destructing rollback log message (20) is valid", () => {
+    // fetch next message
+    const changed: logs.Log = iter.next().value as logs.Log;
+    // assert buffer call
+    expect(add).toHaveBeenNthCalledWith(20, changed);
+    // assert logger
+    expect(changed.logger.uid).toEqual(obj.uid);
+    // assert thread
+    expect(changed.thread).toEqual(thread);
+    // assert type
+    expect(changed.type).toEqual(logs.Type.changed);
+    // assert level
+    expect(changed.level).toEqual(logs.Level.DEBUG);
+    // assert message
+    expect(changed.message instanceof message.Changed).toBeTruthy();
+    expect((changed.message as message.Changed).namespace).toEqual(
+      "Monitorable",
+    );
+    expect((changed.message as message.Changed).attribute).toEqual(
+      "_destructing",
+    );
+    expect((changed.message as message.Changed).value).toEqual(false);
+  });
+
+  test("DESTRUCT_PARTIAL error log message (21) is valid", () => {
+    // fetch next message
+    const error: logs.Log = iter.next().value as logs.Log;
+    // assert buffer call
+    expect(add).toHaveBeenNthCalledWith(21, error);
+    // assert logger
+    expect(error.logger.uid).toEqual(obj.uid);
+    // assert thread
+    expect(error.thread).toEqual(thread);
+    // assert type
+    expect(error.type).toEqual(logs.Type.error);
+    // assert level
+    expect(error.level).toEqual(logs.Level.ERROR);
+    // assert message
+    expect(error.message instanceof message.ErrorLog).toBeTruthy();
+    expect((error.message as message.ErrorLog).code).toEqual(
+      errors.Code.DESTRUCT_PARTIAL,
+    );
+    expect((error.message as message.ErrorLog).message).toEqual(
+      `${errors.Description.DESTRUCT_PARTIAL}: [mln-${errors.Code.DESTRUCT_IMPL}] ${errors.Description.DESTRUCT_IMPL}`,
+    );
+  });
+
+  test("object state is rolled back", () => {
+    expect(obj.destructed).toEqual(false);
+    expect(obj.destructFailure instanceof Error).toBeTruthy();
+    expect(logs.failedDestructs()).toContain(obj);
+  });
+
   test("object kept in the undestructable map", () => {
     expect(logNS.undestructed.get(obj.uid)).toEqual(obj);
   });
@@ -2430,7 +2486,7 @@ describe("WrongMonitorable[destruct] thrown errors handled", () => {
 
   test("destruct thread is logged", () => {
     expect(add).toHaveBeenCalled();
-    expect(set.size).toEqual(17);
+    expect(set.size).toEqual(19);
     iter = set.values();
     for (let i = 0; i < 15; i++) {
       iter.next();
@@ -2503,6 +2559,59 @@ describe("WrongMonitorable[destruct] thrown errors handled", () => {
       "WrongMonitorable test error.",
     );
   });
+
+  test("_destructing rollback log message (18) is valid", () => {
+    // fetch next message
+    const changed: logs.Log = iter.next().value as logs.Log;
+    // assert buffer call
+    expect(add).toHaveBeenNthCalledWith(18, changed);
+    // assert logger
+    expect(changed.logger.uid).toEqual(obj.uid);
+    // assert thread
+    expect(changed.thread).toEqual(thread);
+    // assert type
+    expect(changed.type).toEqual(logs.Type.changed);
+    // assert level
+    expect(changed.level).toEqual(logs.Level.DEBUG);
+    // assert message
+    expect(changed.message instanceof message.Changed).toBeTruthy();
+    expect((changed.message as message.Changed).namespace).toEqual(
+      "Monitorable",
+    );
+    expect((changed.message as message.Changed).attribute).toEqual(
+      "_destructing",
+    );
+    expect((changed.message as message.Changed).value).toEqual(false);
+  });
+
+  test("DESTRUCT_PARTIAL error log message (19) is valid", () => {
+    // fetch next message
+    const error: logs.Log = iter.next().value as logs.Log;
+    // assert buffer call
+    expect(add).toHaveBeenNthCalledWith(19, error);
+    // assert logger
+    expect(error.logger.uid).toEqual(obj.uid);
+    // assert thread
+    expect(error.thread).toEqual(thread);
+    // assert type
+    expect(error.type).toEqual(logs.Type.error);
+    // assert level
+    expect(error.level).toEqual(logs.Level.ERROR);
+    // assert message
+    expect(error.message instanceof message.ErrorLog).toBeTruthy();
+    expect((error.message as message.ErrorLog).code).toEqual(
+      errors.Code.DESTRUCT_PARTIAL,
+    );
+    expect((error.message as message.ErrorLog).message).toEqual(
+      `${errors.Description.DESTRUCT_PARTIAL}: WrongMonitorable test error.`,
+    );
+  });
+
+  test("object state is rolled back", () => {
+    expect(obj.destructed).toEqual(false);
+    expect(obj.destructFailure instanceof Error).toBeTruthy();
+    expect(logs.failedDestructs()).toContain(obj);
+  });
 });
 
 describe("Manual Monitorable[destruct] call throw", () => {
@@ -2821,3 +2930,467 @@ describe("Manual TestMonitorable[destruct] call throw", () => {
     expect(logNS.undestructed.get(obj.uid)).toEqual(obj);
   });
 });
+
+describe("Monitorable destruct failure recovery", () => {
+  /**
+   * Monitorable child class which [destruct] throws until it is fixed.
+   */
+  class FlakyMonitorable extends logs.Monitorable {
+    /**
+     * Whether [destruct] throws.
+     */
+    public broken = true;
+
+    /**
+     * @override
+     */
+    protected [destruct]() {
+      if (this.broken) {
+        throw new Error("FlakyMonitorable test error.");
+      }
+      super[destruct]();
+    }
+  }
+
+  const set: Set<logs.Log> = new Set();
+  let obj: FlakyMonitorable;
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      set.add(log);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+    obj = new FlakyMonitorable();
+  });
+
+  test("failed object stays undestructed and usable", () => {
+    expect(() => obj.destructor()).toThrow("FlakyMonitorable test error.");
+    expect(obj.destructed).toEqual(false);
+    expect(obj.destructFailure?.message).toEqual(
+      "FlakyMonitorable test error.",
+    );
+    expect(logNS.undestructed.get(obj.uid)).toEqual(obj);
+    expect(logs.failedDestructs()).toContain(obj);
+    expect(() => obj.logger.info("still usable")).not.toThrow();
+  });
+
+  test("failed destruct could be retried", () => {
+    expect(() => obj.destructor()).toThrow("FlakyMonitorable test error.");
+    obj.broken = false;
+    obj.destructor();
+    expect(obj.destructed).toBeTruthy();
+    expect(obj.destructFailure).toBeNull();
+    expect(logNS.undestructed.has(obj.uid)).toBeFalsy();
+    expect(logs.failedDestructs()).not.toContain(obj);
+    const failures = [...set].filter(
+      (log) =>
+        log.logger.uid === obj.uid &&
+        log.type === logs.Type.error &&
+        (log.message as message.ErrorLog).code === errors.Code.DESTRUCT_PARTIAL,
+    );
+    expect(failures.length).toEqual(2);
+  });
+
+  test("failed destructs are retried together", () => {
+    const fixed = new FlakyMonitorable();
+    const broken = [new FlakyMonitorable(), new FlakyMonitorable()];
+    [fixed, ...broken].forEach((item) => {
+      expect(() => item.destructor()).toThrow();
+    });
+    fixed.broken = false;
+    let error: unknown;
+    try {
+      logs.retryFailedDestructs();
+    } catch (err) {
+      error = err;
+    }
+    expect(fixed.destructed).toBeTruthy();
+    expect(error instanceof errors.AggregateError).toBeTruthy();
+    expect((error as errors.AggregateError).code).toEqual(
+      errors.Code.DESTRUCT_PARTIAL,
+    );
+    broken.forEach((item) => {
+      expect(item.destructed).toEqual(false);
+      expect(logs.failedDestructs()).toContain(item);
+      item.broken = false;
+      item.destructor();
+    });
+  });
+});
+
+describe("Monitorable destruct-order dependencies", () => {
+  /**
+   * Monitorable child class which remembers the destruct order.
+   */
+  class OrderedMonitorable extends logs.Monitorable {
+    /**
+     * Destructed objects names in the destruct order.
+     */
+    public static order: Array<string> = [];
+
+    /**
+     * Object name.
+     */
+    public declare label: string;
+
+    /**
+     * @override
+     */
+    protected [construct](options?: unknown) {
+      super[construct](options);
+      this.label = String(options);
+    }
+
+    /**
+     * @override
+     */
+    protected [destruct]() {
+      OrderedMonitorable.order.push(this.label);
+      super[destruct]();
+    }
+  }
+
+  const set: Set<logs.Log> = new Set();
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      set.add(log);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+  });
+
+  beforeEach(() => {
+    OrderedMonitorable.order = [];
+  });
+
+  test("dependents are destructed in topological order", () => {
+    const a = new OrderedMonitorable("a");
+    const b = new OrderedMonitorable("b");
+    const c = new OrderedMonitorable("c");
+    const d = new OrderedMonitorable("d");
+    b.addDependency(a);
+    c.addDependency(a);
+    d.addDependency(b);
+    d.addDependency(c);
+    expect(a.dependents).toEqual([b, c]);
+    expect(d.dependencies).toEqual([b, c]);
+    a.destructor();
+    expect(OrderedMonitorable.order).toEqual(["d", "c", "b", "a"]);
+    [a, b, c, d].forEach((obj) => {
+      expect(obj.destructed).toBeTruthy();
+      expect(obj.dependencies).toEqual([]);
+      expect(obj.dependents).toEqual([]);
+    });
+  });
+
+  test("destructed dependent is forgotten", () => {
+    const a = new OrderedMonitorable("a");
+    const b = new OrderedMonitorable("b");
+    b.addDependency(a);
+    b.destructor();
+    expect(a.dependents).toEqual([]);
+    a.destructor();
+    expect(OrderedMonitorable.order).toEqual(["b", "a"]);
+  });
+
+  test("removed dependency doesn't affect destruct order", () => {
+    const a = new OrderedMonitorable("a");
+    const b = new OrderedMonitorable("b");
+    b.addDependency(a);
+    b.removeDependency(a);
+    expect(a.dependents).toEqual([]);
+    a.destructor();
+    expect(OrderedMonitorable.order).toEqual(["a"]);
+    expect(b.destructed).toBeFalsy();
+    b.destructor();
+  });
+
+  test("dependencies cycle is detected", () => {
+    const a = new OrderedMonitorable("a");
+    const b = new OrderedMonitorable("b");
+    const c = new OrderedMonitorable("c");
+    b.addDependency(a);
+    c.addDependency(b);
+    expect(() => a.addDependency(c)).toThrow(
+      new errors.Error(
+        errors.Code.DESTRUCT_CYCLE,
+        errors.Description.DESTRUCT_CYCLE,
+      ),
+    );
+    expect(() => a.addDependency(a)).toThrow(errors.Description.DESTRUCT_CYCLE);
+    expect(a.dependencies).toEqual([]);
+    const cycle = [...set].find(
+      (log) =>
+        log.logger.uid === a.uid &&
+        log.type === logs.Type.error &&
+        (log.message as message.ErrorLog).code === errors.Code.DESTRUCT_CYCLE,
+    );
+    expect((cycle?.message as message.ErrorLog).message).toEqual(
+      `${errors.Description.DESTRUCT_CYCLE}: ` +
+        `OrderedMonitorable{${a.uid}} -> OrderedMonitorable{${c.uid}} -> ` +
+        `OrderedMonitorable{${b.uid}} -> OrderedMonitorable{${a.uid}}`,
+    );
+    a.destructor();
+    expect(OrderedMonitorable.order).toEqual(["c", "b", "a"]);
+  });
+
+  test("dependency on destructed object is rejected", () => {
+    const a = new OrderedMonitorable("a");
+    const b = new OrderedMonitorable("b");
+    a.destructor();
+    expect(() => b.addDependency(a)).toThrow(errors.Description.DESTRUCTED_USE);
+    b.destructor();
+  });
+});
+
+describe("Monitorable construction options", () => {
+  /**
+   * Construction options to test.
+   */
+  interface Options {
+    url: string;
+    token: string;
+    retry?: () => void;
+  }
+
+  /**
+   * Monitorable child class with construction options.
+   */
+  class Client extends logs.Monitorable<Options> {
+    // assigned in [construct], so it must not be redefined as a field
+    public declare url: string;
+
+    /**
+     * @override
+     */
+    protected [construct](options?: Options) {
+      super[construct](options);
+      this.url = options ? options.url : "";
+    }
+
+    /**
+     * @override
+     */
+    protected [redact](options: Options): unknown {
+      return { ...options, token: "***" };
+    }
+  }
+
+  const set: Set<logs.Log> = new Set();
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      set.add(log);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+  });
+
+  const getOptions = (obj: logs.Monitorable): Array<logs.Log> =>
+    [...set].filter(
+      (log) =>
+        log.logger.uid === obj.uid &&
+        log.type === logs.Type.checkpoint &&
+        (log.message as message.Checkpoint).name === "options",
+    );
+
+  test("options are passed into the [construct]", () => {
+    const client = new Client({ url: "http://host", token: "secret" });
+    expect(client.url).toEqual("http://host");
+    client.destructor();
+  });
+
+  test("redacted options are logged in the construct thread", () => {
+    const client = new Client({
+      url: "http://host",
+      token: "secret",
+      retry: function retry() {
+        return undefined;
+      },
+    });
+    const logged = getOptions(client);
+    expect(logged.length).toEqual(1);
+    expect(logged[0].level).toEqual(logs.Level.TRACE);
+    expect((logged[0].message as message.Checkpoint).value).toEqual(
+      JSON.stringify({
+        url: "http://host",
+        token: "***",
+        retry: "[Function retry]",
+      }),
+    );
+    const constructed = [...set].find(
+      (log) =>
+        log.logger.uid === client.uid && log.type === logs.Type.constructed,
+    ) as logs.Log;
+    expect(logged[0].thread).toEqual(constructed.thread);
+    client.destructor();
+  });
+
+  test("missing options are not logged", () => {
+    const client = new Client();
+    expect(client.url).toEqual("");
+    expect(getOptions(client)).toEqual([]);
+    client.destructor();
+  });
+
+  test("unserializable options are logged with placeholder", () => {
+    const options: { self?: unknown } = {};
+    options.self = options;
+    const obj = new logs.Monitorable<{ self?: unknown }>(options);
+    expect((getOptions(obj)[0].message as message.Checkpoint).value).toEqual(
+      "[Unserializable]",
+    );
+    obj.destructor();
+  });
+});
+
+describe("Monitorable asynchronous construct", () => {
+  /**
+   * Monitorable child class with asynchronous construct phase.
+   */
+  class AsyncMonitorable extends logs.Monitorable {
+    /**
+     * Error to reject asynchronous construct with.
+     */
+    public static failure: null | Error = null;
+
+    /**
+     * Asynchronously loaded property.
+     */
+    public loaded = false;
+
+    /**
+     * @override
+     */
+    protected async [constructAsync]() {
+      await super[constructAsync]();
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      this.logger.trace(logs.getCheckpoint("constructAsync", "loaded"));
+      if (AsyncMonitorable.failure) {
+        throw AsyncMonitorable.failure;
+      }
+      this.loaded = true;
+    }
+  }
+
+  const set: Set<logs.Log> = new Set();
+  let buffer: TestBuffer;
+
+  beforeAll(() => {
+    // mock buffer for test
+    buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      set.add(log);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+  });
+
+  beforeEach(() => {
+    set.clear();
+  });
+
+  test("not overridden async construct is resolved", async () => {
+    const obj = new logs.Monitorable();
+    await expect(obj.ready).resolves.toBeUndefined();
+  });
+
+  test("async construct is logged in the construct thread", async () => {
+    const obj = new AsyncMonitorable();
+    expect(obj.loaded).toBeFalsy();
+    await obj.ready;
+    expect(obj.loaded).toBeTruthy();
+    const logged = [...set];
+    const thread = logged[0].thread;
+    const checkpoint = logged.find(
+      (log) =>
+        log.type === logs.Type.checkpoint &&
+        (log.message as message.Checkpoint).name === "constructAsync",
+    ) as logs.Log;
+    expect(checkpoint.thread).toEqual(thread);
+    expect(logged[logged.length - 1].thread).toEqual(thread);
+    expect(logged[logged.length - 1].message).toEqual(
+      message.getChanged("Monitorable", "_ready", true),
+    );
+  });
+
+  test("rejected async construct destructs object", async () => {
+    AsyncMonitorable.failure = new Error("load failed");
+    const obj = new AsyncMonitorable();
+    await expect(obj.ready).rejects.toThrow("load failed");
+    AsyncMonitorable.failure = null;
+    expect(obj.destructed).toBeTruthy();
+    expect(logNS.undestructed.has(obj.uid)).toBeFalsy();
+    const error = [...set].find(
+      (log) => log.type === logs.Type.error,
+    ) as logs.Log;
+    expect((error.message as message.ErrorLog).code).toEqual(
+      errors.Code.CONSTRUCT_ASYNC,
+    );
+    expect(error.thread).toEqual([...set][0].thread);
+  });
+});
+
+describe("Monitorable asynchronous destruct", () => {
+  /**
+   * Monitorable child class with asynchronous destruct phase.
+   */
+  class AsyncMonitorable extends logs.Monitorable {
+    /**
+     * Asynchronous cleanup delay, ms.
+     */
+    public delay = 1;
+
+    /**
+     * Whether asynchronous cleanup was finished.
+     */
+    public closed = false;
+
+    /**
+     * @override
+     */
+    protected async [destructAsync](timeout: number) {
+      await new Promise((resolve) => setTimeout(resolve, this.delay));
+      this.closed = true;
+      await super[destructAsync](timeout);
+    }
+  }
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+  });
+
+  test("async destruct is awaited before destruct", async () => {
+    const obj = new AsyncMonitorable();
+    const promise = obj.destructorAsync();
+    expect(obj.destructorAsync()).toBe(promise);
+    expect(obj.destructed).toBeFalsy();
+    await promise;
+    expect(obj.closed).toBeTruthy();
+    expect(obj.destructed).toBeTruthy();
+    expect(logNS.undestructed.has(obj.uid)).toBeFalsy();
+    await expect(obj.destructorAsync()).resolves.toBeUndefined();
+  });
+
+  test("timed out object is destructed anyway", async () => {
+    const obj = new AsyncMonitorable();
+    obj.delay = 50;
+    await expect(obj.destructorAsync(5)).rejects.toThrow(
+      `mln-${errors.Code.DESTRUCT_TIMEOUT}`,
+    );
+    expect(obj.closed).toBeFalsy();
+    expect(obj.destructed).toBeTruthy();
+    expect(logNS.undestructed.has(obj.uid)).toBeFalsy();
+  });
+});
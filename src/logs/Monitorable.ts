@@ -5,9 +5,15 @@
  * @license Apache-2.0
  */
 
+import * as util from "util";
 import { errors } from "../errors";
 import { symbolsNS } from "../symbols";
 import { helpers } from "./helpers";
+import { leaks } from "./leaks/collected";
+import { leaks as lks } from "./leaks/WeakValueMap";
+import { lifecycle } from "./lifecycle";
+import { registry } from "./registry/classes";
+import { scope } from "./scope/Scope";
 import { logger } from "./logger";
 import { message } from "./message";
 import { thread } from "./thread";
@@ -20,15 +26,171 @@ export namespace logs {
   import _created = symbolsNS._created;
   import _stack = symbolsNS._stack;
   import _logger = symbolsNS._logger;
+  import _ready = symbolsNS._ready;
+  import _destructAsync = symbolsNS._destructAsync;
+  import _destructFailure = symbolsNS._destructFailure;
   import construct = symbolsNS.construct;
+  import constructAsync = symbolsNS.constructAsync;
+  import destructAsync = symbolsNS.destructAsync;
+  import destructNestedAsync = symbolsNS.destructNestedAsync;
+  import redact = symbolsNS.redact;
+  import reset = symbolsNS.reset;
+  import dispose = symbolsNS.dispose;
+  import asyncDispose = symbolsNS.asyncDispose;
   import destruct = symbolsNS.destruct;
   import getUid = helpers.getUid;
   import getStack = helpers.getStack;
+  import WeakValueMap = lks.WeakValueMap;
+  import Lifecycle = lifecycle.Lifecycle;
+  import notify = lifecycle.notify;
 
   /**
-   * Map of the undestructed destructable objects.
+   * Map of the undestructed destructable objects. Objects are held weakly
+   * (see {@link lks.WeakValueMap}), so the map doesn't prevent garbage
+   * collection of the objects which were never destructed (see
+   * {@link leaks.collected}).
    */
-  export const undestructed: Map<string, Monitorable> = new Map();
+  export const undestructed: Map<string, Monitorable> = new WeakValueMap();
+
+  /**
+   * Destruct-order dependencies: objects which must be destructed before a
+   * given one (see {@link Monitorable.addDependency}), in the order of
+   * declaration.
+   */
+  const dependents: WeakMap<Monitorable, Array<Monitorable>> = new WeakMap();
+
+  /**
+   * Reverse destruct-order dependencies: objects which must outlive a given
+   * one.
+   */
+  const dependencies: WeakMap<Monitorable, Array<Monitorable>> = new WeakMap();
+
+  /**
+   * Returns short description of a given object for the error messages.
+   * @param obj Object to describe.
+   */
+  const describe = (obj: Monitorable): string => {
+    return `${obj.className}{${obj.uid}}`;
+  };
+
+  /**
+   * Returns path of the destruct-order dependencies from a given object to
+   * the target one, `null` if the target isn't reachable.
+   * @param from Object to start from.
+   * @param to Target object.
+   */
+  const findPath = (
+    from: Monitorable,
+    to: Monitorable,
+  ): null | Array<Monitorable> => {
+    if (from === to) {
+      return [from];
+    }
+    for (const dependency of dependencies.get(from) || []) {
+      const path = findPath(dependency, to);
+      if (path) {
+        return [from, ...path];
+      }
+    }
+    return null;
+  };
+
+  /**
+   * Deletes item from a given list of the map.
+   * @param map Map of the lists.
+   * @param key List key.
+   * @param item Item to delete.
+   */
+  const unlink = (
+    map: WeakMap<Monitorable, Array<Monitorable>>,
+    key: Monitorable,
+    item: Monitorable,
+  ): void => {
+    const list = map.get(key);
+    if (list && list.indexOf(item) !== -1) {
+      list.splice(list.indexOf(item), 1);
+      if (!list.length) {
+        map.delete(key);
+      }
+    }
+  };
+
+  /**
+   * Structured snapshot of the {@link Monitorable} object state.
+   */
+  export interface Snapshot {
+    uid: string;
+    className: string;
+    constructed: Date;
+    destructed: boolean | Date;
+  }
+
+  /**
+   * Returns promise which rejects with the `DESTRUCT_TIMEOUT` error if a given
+   * promise is not settled in time.
+   * @param promise Promise to wait for.
+   * @param timeout Timeout in ms, 0 if unlimited.
+   */
+  const deadline = (promise: Promise<void>, timeout: number): Promise<void> => {
+    if (timeout <= 0) {
+      return promise;
+    }
+    let timer: undefined | ReturnType<typeof setTimeout>;
+    return Promise.race([
+      promise,
+      new Promise<void>((resolve, reject) => {
+        timer = setTimeout(() => {
+          reject(
+            new errors.Error(
+              errors.Code.DESTRUCT_TIMEOUT,
+              errors.Description.DESTRUCT_TIMEOUT,
+            ),
+          );
+        }, timeout);
+      }),
+    ]).finally(() => clearTimeout(timer as ReturnType<typeof setTimeout>));
+  };
+
+  /**
+   * Throws `DESTRUCTED_USE` error if a given object is destructed. Called at
+   * the public API boundaries, so use-after-destruct is reported instead of
+   * the internal state errors.
+   * @param obj Object to check.
+   * @param member Name of the used method or property.
+   */
+  export const assertUndestructed = (
+    obj: Monitorable,
+    member: string,
+  ): void => {
+    if (obj.destructed) {
+      obj.logger.error(
+        message.getError(
+          errors.Code.DESTRUCTED_USE,
+          `${errors.Description.DESTRUCTED_USE}: ${obj.className}.${member}`,
+        ),
+      );
+      throw new errors.Error(
+        errors.Code.DESTRUCTED_USE,
+        errors.Description.DESTRUCTED_USE,
+      );
+    }
+  };
+
+  /**
+   * Returns JSON representation of a given value to log. Functions are
+   * replaced with their names, unserializable values with a placeholder.
+   * @param value Value to stringify.
+   */
+  const stringify = (value: unknown): string => {
+    try {
+      const json = JSON.stringify(value, (key, val: unknown) =>
+        typeof val === "function" ? `[Function ${val.name}]` : val,
+      );
+      return json === undefined ? String(value) : json;
+    } catch (err) {
+      return "[Unserializable]";
+    }
+  };
 
   /**
    * Class that provides the basic layer for the `mdln`-objects. It responds for
@@ -36,8 +198,13 @@ export namespace logs {
    * associated with the object data. As a structure it hosts a unique object
    * identifier, object creation moment timestamp, object creation stack and
    * associated logger.
+   *
+   * Construction options of the `Options` type could be passed to the
+   * constructor. They are logged in the `construct thread` (see
+   * {@link [redact] | `[redact]`}) and passed to the
+   * {@link [construct] | `[construct]`} method.
    */
-  export class Monitorable {
+  export class Monitorable<Options = unknown> {
     /**
      * Symbolic field for the `_constructing` boolean state.
      */
@@ -76,7 +243,26 @@ export namespace logs {
     /**
      * Symbolic field for the object's associated `_logger`.
      */
-    private [_logger]: logger.Logger = new logger.Logger(this[_uid]);
+    private [_logger]: logger.Logger = new logger.Logger(
+      this[_uid],
+      undefined,
+      this.className,
+    );
+
+    /**
+     * Symbolic field for the asynchronous construction promise.
+     */
+    private [_ready]: Promise<void> = Promise.resolve();
+
+    /**
+     * Symbolic field for the running asynchronous destruction promise.
+     */
+    private [_destructAsync]: null | Promise<void> = null;
+
+    /**
+     * Symbolic field for the last failed destruction error.
+     */
+    private [_destructFailure]: null | Error = null;
 
     /**
      * Object unique UUID-like identifier.
@@ -85,6 +271,13 @@ export namespace logs {
       return this[_uid];
     }
 
+    /**
+     * Name of the object class.
+     */
+    public get className(): string {
+      return this.constructor.name;
+    }
+
     /**
      * Object instantiation timestamp.
      */
@@ -100,6 +293,14 @@ export namespace logs {
       return this[_destructed];
     }
 
+    /**
+     * Error of the last failed destruction attempt, or null if the object
+     * destruction hasn't failed (see {@link Monitorable.destructor}).
+     */
+    public get destructFailure(): null | Error {
+      return this[_destructFailure];
+    }
+
     /**
      * Object instantiation stack.
      */
@@ -114,6 +315,16 @@ export namespace logs {
       return this[_logger];
     }
 
+    /**
+     * Promise which resolves when the asynchronous construction phase
+     * ({@link [constructAsync] | `[constructAsync]`}) is finished. Rejects
+     * with the `[constructAsync]` error, in which case the object is already
+     * destructed.
+     */
+    public get ready(): Promise<void> {
+      return this[_ready];
+    }
+
     /**
      * Performs appropriate piece of the `construct thread` and log all
      * construction related data under the same thread uid.
@@ -126,15 +337,23 @@ export namespace logs {
      * ```typescript
      * import { construct, Monitorable } from "mdln";
      *
-     * class MyClass extends Monitorable {
-     *   protected [construct](): void {
-     *     super[construct]();
+     * class MyClass extends Monitorable<{ port: number }> {
+     *   // assigned in [construct], so it must not be redefined as a field
+     *   public declare port: number;
+     *
+     *   protected [construct](options?: { port: number }): void {
+     *     super[construct](options);
      *     // Bootstrap logic specific to MyClass.
+     *     this.port = options ? options.port : 80;
      *   }
      * }
+     *
+     * new MyClass({ port: 8080 });
      * ```
+     *
+     * @param _options Construction options passed to the constructor.
      */
-    protected [construct](): void {
+    protected [construct](_options?: Options): void {
       if (this[_constructed]) {
         this.logger.error(
           message.getError(
@@ -149,7 +368,7 @@ export namespace logs {
       } else {
         // run construct thread
         this[_constructing] = true;
-        this.logger.debug(
+        this.logger.debug(() =>
           message.getChanged(
             "Monitorable",
             "_constructing",
@@ -157,16 +376,18 @@ export namespace logs {
           ),
         );
         this[_destructing] = false;
-        this.logger.debug(
+        this.logger.debug(() =>
           message.getChanged("Monitorable", "_destructing", this[_destructing]),
         );
         this[_destructed] = false;
-        this.logger.debug(
+        this.logger.debug(() =>
           message.getChanged("Monitorable", "_destructed", this[_destructed]),
         );
         // add object to the undestructed map
         undestructed.set(this.uid, this);
-        this.logger.debug(
+        leaks.watch(this);
+        registry.add(this);
+        this.logger.debug(() =>
           message.getCalled(
             "undestructed",
             "Map",
@@ -178,6 +399,93 @@ export namespace logs {
       }
     }
 
+    /**
+     * Returns representation of the construction options to log in the
+     * `construct thread`. Options are logged as is by default, so classes
+     * which receive secrets should override this method. Called only if the
+     * trace logs are enabled.
+     *
+     * @example
+     * ```typescript
+     * import { redact, Monitorable } from "mdln";
+     *
+     * class Client extends Monitorable<{ url: string; token: string }> {
+     *   protected [redact](options: { url: string; token: string }): unknown {
+     *     return { ...options, token: "***" };
+     *   }
+     * }
+     * ```
+     *
+     * @param options Construction options.
+     */
+    protected [redact](options: Options): unknown {
+      return options;
+    }
+
+    /**
+     * Prepares destructed object to be constructed again by the
+     * {@link Monitorable.recycle | `recycle`}: assigns fresh uid, creation
+     * timestamp and logger. Instantiation stack is kept.
+     *
+     * Classes which hold state that isn't restored by their
+     * {@link [construct] | `[construct]`} should override this method to
+     * clear it. It must only be called from the subclass's symbolic `[reset]`
+     * method.
+     *
+     * @example
+     * ```typescript
+     * import { reset, Monitorable } from "mdln";
+     *
+     * class MyClass extends Monitorable {
+     *   public cache = new Map();
+     *
+     *   protected [reset](): void {
+     *     this.cache.clear();
+     *     super[reset]();
+     *   }
+     * }
+     * ```
+     */
+    protected [reset](): void {
+      this[_uid] = getUid();
+      this[_created] = new Date();
+      this[_logger] = new logger.Logger(this[_uid], undefined, this.className);
+      this[_constructed] = false;
+      this[_ready] = Promise.resolve();
+      this[_destructFailure] = null;
+    }
+
+    /**
+     * Performs the asynchronous piece of the `construct thread`. Called once,
+     * right after the synchronous {@link [construct] | `[construct]`}, and
+     * logs under the same thread uid. Its result is exposed as the
+     * {@link Monitorable.ready | `ready`} promise. If it rejects, the error
+     * is logged and the object is destructed.
+     *
+     * Classes that need to open files, load configuration or wait for other
+     * objects during construction should override this method. Not reentrant.
+     * It must only be called from the subclass's symbolic `[constructAsync]`
+     * method.
+     *
+     * @example
+     * ```typescript
+     * import { constructAsync, Monitorable } from "mdln";
+     *
+     * class MyClass extends Monitorable {
+     *   protected async [constructAsync](): Promise<void> {
+     *     await super[constructAsync]();
+     *     // Asynchronous bootstrap logic specific to MyClass.
+     *   }
+     * }
+     *
+     * const obj = new MyClass();
+     * await obj.ready;
+     * ```
+     */
+    protected [constructAsync](): Promise<void> {
+      return Promise.resolve();
+    }
+
     /**
      * Performs appropriate piece of the `destruct thread` and log all
      * destruction related data under the same thread uid.
@@ -202,7 +510,7 @@ export namespace logs {
      * ```
      */
     protected [destruct](): void {
-      this.logger.trace(message.getCheckpoint("destruct", "Monitorable"));
+      this.logger.trace(() => message.getCheckpoint("destruct", "Monitorable"));
       if (!this[_destructing]) {
         this.logger.error(
           message.getError(
@@ -217,20 +525,71 @@ export namespace logs {
       } else {
         // delete object from the internal undestructed map
         undestructed.delete(this.uid);
-        this.logger.debug(
+        leaks.unwatch(this);
+        registry.remove(this);
+        this.logger.debug(() =>
           message.getCalled("undestructed", "Map", "delete", [this.uid], true),
         );
+        // forget destruct-order dependencies
+        [...(dependencies.get(this) || [])].forEach((dependency) => {
+          this.removeDependency(dependency);
+        });
+        [...(dependents.get(this) || [])].forEach((dependent) => {
+          dependent.removeDependency(this);
+        });
         this[_destructing] = false;
-        this.logger.debug(
+        this.logger.debug(() =>
           message.getChanged("Monitorable", "_destructing", this[_destructing]),
         );
         this[_destructed] = new Date();
-        this.logger.debug(
+        this.logger.debug(() =>
           message.getChanged("Monitorable", "_destructed", this[_destructed]),
         );
       }
     }
 
+    /**
+     * Performs the asynchronous piece of the `destruct thread`, which is
+     * awaited by the {@link Monitorable.destructorAsync | `destructorAsync`}
+     * before the synchronous {@link [destruct] | `[destruct]`} is called.
+     *
+     * Classes that hold sockets, file handles or other resources which need
+     * asynchronous cleanup should override this method. It must only be called
+     * from the subclass's symbolic `[destructAsync]` method.
+     *
+     * @example
+     * ```typescript
+     * import { destructAsync, Monitorable } from "mdln";
+     *
+     * class MyClass extends Monitorable {
+     *   protected async [destructAsync](timeout: number): Promise<void> {
+     *     await this.socket.close();
+     *     await super[destructAsync](timeout);
+     *   }
+     * }
+     * ```
+     *
+     * @param _timeout Timeout of the object's own asynchronous destruction, ms
+     * (0 if unlimited).
+     */
+    protected [destructAsync](_timeout: number): Promise<void> {
+      return Promise.resolve();
+    }
+
+    /**
+     * Awaits asynchronous destruction of the nested objects (e.g. the
+     * children nodes) before the object's own
+     * {@link [destructAsync] | `[destructAsync]`} method is called. The nested
+     * objects apply the timeout on their own, so the timeout of the object
+     * limits only its own `[destructAsync]` method, not the whole hierarchy.
+     *
+     * @param _timeout Timeout to pass to the nested asynchronous destructions,
+     * ms (0 if unlimited).
+     */
+    protected [destructNestedAsync](_timeout: number): Promise<void> {
+      return Promise.resolve();
+    }
+
     /**
      * Constructor of the `mdln`-object. Responds for the `construct thread`
      * execution and defined in the {@link Monitorable | `Monitorable`} class.
@@ -240,28 +599,56 @@ export namespace logs {
      * {@link [construct] | `[construct]`} method SHOULD be used. This allows
      * to handle moments of the construction start and end and other significant
      * for the logging purposes information.
+     *
+     * @param options Construction options passed to the
+     * {@link [construct] | `[construct]`} method.
      */
-    public constructor() {
+    public constructor(options?: Options) {
       thread.start();
-      this.logger.trace(message.getCheckpoint("construct", "Monitorable"));
-      this.logger.debug(message.getChanged("Monitorable", "_uid", this[_uid]));
-      this.logger.debug(
+      this.logger.trace(() =>
+        message.getCheckpoint("construct", "Monitorable"),
+      );
+      this.logger.debug(() =>
+        message.getChanged("Monitorable", "_uid", this[_uid]),
+      );
+      this.logger.debug(() =>
         message.getChanged("Monitorable", "_created", this[_created]),
       );
-      this.logger.debug(
+      this.logger.debug(() =>
         message.getChanged("Monitorable", "_stack", this[_stack]),
       );
-      this.logger.debug(
+      this.logger.debug(() =>
         message.getChanged("Monitorable", "_logger", `{logger[${this[_uid]}]}`),
       );
 
+      this.runConstruct(options);
+    }
+
+    /**
+     * Runs the {@link [construct] | `[construct]`} hierarchy, finishes the
+     * `construct thread` started by the caller and starts the asynchronous
+     * construction phase.
+     * @param options Construction options.
+     */
+    private runConstruct(options?: Options): void {
       // safe run [construct] hierarchy
+      let completed = false;
+      let failure: unknown;
       try {
         this[_constructed] = false;
-        this.logger.debug(
+        this.logger.debug(() =>
           message.getChanged("Monitorable", "_constructed", this[_constructed]),
         );
-        this[construct]();
+        if (options !== undefined) {
+          this.logger.trace(() =>
+            message.getCheckpoint("options", stringify(this[redact](options))),
+          );
+        }
+        this[construct](options);
+        completed = true;
+      } catch (err) {
+        failure = err;
+        throw err;
       } finally {
         if (!this[_constructing]) {
           this.logger.error(
@@ -270,17 +657,19 @@ export namespace logs {
               errors.Description.CONSTRUCT_IMPL,
             ),
           );
-          thread.stop();
-          // eslint-disable-next-line no-unsafe-finally
-          throw new errors.Error(
+          const error = new errors.Error(
             errors.Code.CONSTRUCT_IMPL,
             errors.Description.CONSTRUCT_IMPL,
           );
+          notify(this, Lifecycle.CONSTRUCT_FAILED, error);
+          thread.stop();
+          // eslint-disable-next-line no-unsafe-finally
+          throw error;
         }
 
         // disable construct thread
         this[_constructing] = false;
-        this.logger.debug(
+        this.logger.debug(() =>
           message.getChanged(
             "Monitorable",
             "_constructing",
@@ -290,60 +679,485 @@ export namespace logs {
 
         // mark object as constructed
         this[_constructed] = true;
-        this.logger.debug(
+        this.logger.debug(() =>
           message.getChanged("Monitorable", "_constructed", this[_constructed]),
         );
         this.logger.info(message.getConstructed());
+        if (completed) {
+          notify(this, Lifecycle.CONSTRUCTED);
+          scope.Scope.current()?.add(this);
+        } else {
+          notify(this, Lifecycle.CONSTRUCT_FAILED, failure);
+        }
+
+        // run [constructAsync] hierarchy, if it's overridden, within the
+        // construct thread
+        if (
+          completed &&
+          this[constructAsync] !== Monitorable.prototype[constructAsync]
+        ) {
+          this[_ready] = this.runConstructAsync();
+          // failure is logged, so it must not be reported as unhandled
+          this[_ready].catch(() => undefined);
+        }
         thread.stop();
       }
     }
 
+    /**
+     * Runs the {@link [constructAsync] | `[constructAsync]`} hierarchy and
+     * destructs the object if it fails.
+     */
+    private async runConstructAsync(): Promise<void> {
+      try {
+        await this[constructAsync]();
+      } catch (err) {
+        this.logger.error(
+          message.getError(
+            errors.Code.CONSTRUCT_ASYNC,
+            `${errors.Description.CONSTRUCT_ASYNC}: ${(err as Error).message}`,
+          ),
+        );
+        notify(this, Lifecycle.CONSTRUCT_FAILED, err);
+        if (!this.destructed) {
+          try {
+            this.destructor();
+          } catch (error) {
+            // destruct failure is already logged by the destructor
+          }
+        }
+        throw err;
+      }
+      this.logger.debug(() =>
+        message.getChanged("Monitorable", "_ready", true),
+      );
+    }
+
     /**
      * Destruct the `mdln`-object. If the object hasn't already been destructed, calls
      * symbolic {@link [destruct] | `[destruct]`} method to start the
      * `destruct thread`. Logs new warning if object has already been destructed.
+     *
+     * If the `destruct thread` fails before the base `[destruct]` is reached,
+     * the object state is rolled back: it stays undestructed and usable, the
+     * `DESTRUCT_PARTIAL` error is logged and the failure is available through
+     * the {@link Monitorable.destructFailure | `destructFailure`}. Parts of
+     * the subclass's state released before the failure (e.g. already
+     * destructed children of a node) are not restored. Destruction could be
+     * retried by calling the destructor again (see {@link retryFailed}).
      */
     public destructor(): void {
       thread.start();
       if (this.destructed) {
         this.logger.warn(`{${this.uid}} is alredy destructed`);
+      } else if (this[_destructing]) {
+        // destructor is reentered from the own destruct thread, so the
+        // dependencies (probably along with the nodes relations) are cyclic
+        this.logger.error(
+          message.getError(
+            errors.Code.DESTRUCT_CYCLE,
+            `${errors.Description.DESTRUCT_CYCLE}: ${describe(this)}`,
+          ),
+        );
+        thread.stop();
+        throw new errors.Error(
+          errors.Code.DESTRUCT_CYCLE,
+          errors.Description.DESTRUCT_CYCLE,
+        );
       } else {
         // enable destruct thread
         this[_destructing] = true;
-        this.logger.debug(
+        this.logger.debug(() =>
           message.getChanged("Monitorable", "_destructing", this[_destructing]),
         );
 
-        // safe run [destruct] hierarchy
+        // safe run [destruct] hierarchy, after the dependents
         try {
+          [...(dependents.get(this) || [])].reverse().forEach((dependent) => {
+            if (!dependent.destructed) {
+              dependent.destructor();
+            }
+          });
           this[destruct]();
         } catch (err) {
           // log unhandled error
           this.logger.error(
             message.getError(errors.Code.UNHANDLED_ERR, (err as Error).message),
           );
+          this.rollback(err as Error);
+          notify(this, Lifecycle.DESTRUCT_FAILED, err);
           thread.stop();
           throw err;
         }
 
         // assert destruct result
         if (!this[_destructed] || this[_destructing]) {
-          // TODO (buntarb): cleaning up/restore state here?
           this.logger.error(
             message.getError(
               errors.Code.DESTRUCT_IMPL,
               errors.Description.DESTRUCT_IMPL,
             ),
           );
-          thread.stop();
-          throw new errors.Error(
+          const error = new errors.Error(
             errors.Code.DESTRUCT_IMPL,
             errors.Description.DESTRUCT_IMPL,
           );
+          this.rollback(error);
+          notify(this, Lifecycle.DESTRUCT_FAILED, error);
+          thread.stop();
+          throw error;
+        }
+        if (this[_destructFailure]) {
+          this[_destructFailure] = null;
+          this.logger.debug(() =>
+            message.getChanged("Monitorable", "_destructFailure", null),
+          );
         }
         this.logger.info(message.getDestructed());
+        notify(this, Lifecycle.DESTRUCTED);
       }
       thread.stop();
     }
+
+    /**
+     * Restores the undestructed state of the object after the failed
+     * `destruct thread`: resets the `_destructing` flag (the object stays in
+     * the {@link undestructed} map and remains usable) and remembers the
+     * failure, so the destruction could be retried later. Does nothing if the
+     * base `[destruct]` has already completed the destruction.
+     * @param error Destruction error.
+     */
+    private rollback(error: Error): void {
+      if (this[_destructed]) {
+        return;
+      }
+      this[_destructing] = false;
+      this.logger.debug(() =>
+        message.getChanged("Monitorable", "_destructing", this[_destructing]),
+      );
+      this[_destructFailure] = error;
+      this.logger.error(
+        message.getError(
+          errors.Code.DESTRUCT_PARTIAL,
+          `${errors.Description.DESTRUCT_PARTIAL}: ${error.message}`,
+        ),
+      );
+    }
+
+    /**
+     * Asynchronously destructs the `mdln`-object. Awaits symbolic
+     * {@link [destructAsync] | `[destructAsync]`} method within the new
+     * `destruct thread` and then calls the
+     * {@link Monitorable.destructor | `destructor`}. The object is destructed
+     * even if `[destructAsync]` fails or exceeds the timeout, in which case
+     * the returned promise rejects with the occurred error (or with the
+     * `DESTRUCT_ASYNC` aggregate error if there are several ones). Concurrent
+     * calls share the same promise.
+     *
+     * @param timeout Timeout of the `[destructAsync]` phase, ms (0 if
+     * unlimited).
+     */
+    public destructorAsync(timeout = 0): Promise<void> {
+      const running = this[_destructAsync];
+      if (running) {
+        return running;
+      }
+      if (this.destructed) {
+        this.destructor();
+        return Promise.resolve();
+      }
+      const promise = thread.run(() => this.runDestructAsync(timeout));
+      this[_destructAsync] = promise;
+      return promise;
+    }
+
+    /**
+     * Destructs the object if it isn't destructed yet (`using` declaration
+     * support).
+     */
+    public [dispose](): void {
+      if (!this.destructed) {
+        this.destructor();
+      }
+    }
+
+    /**
+     * Asynchronously destructs the object if it isn't destructed yet
+     * (`await using` declaration support).
+     */
+    public [asyncDispose](): Promise<void> {
+      return this.destructed ? Promise.resolve() : this.destructorAsync();
+    }
+
+    /**
+     * Constructs destructed object again instead of instantiating the new
+     * one: runs the {@link [reset] | `[reset]`} hierarchy and then the
+     * `construct thread` with a given options, as the constructor does.
+     * Recycled object gets fresh uid and returns to the {@link undestructed}
+     * map. Throws `RECYCLE_CALL` error if the object isn't destructed.
+     *
+     * @param options Construction options passed to the
+     * {@link [construct] | `[construct]`} method.
+     */
+    public recycle(options?: Options): this {
+      if (!this.destructed) {
+        this.logger.error(
+          message.getError(
+            errors.Code.RECYCLE_CALL,
+            errors.Description.RECYCLE_CALL,
+          ),
+        );
+        throw new errors.Error(
+          errors.Code.RECYCLE_CALL,
+          errors.Description.RECYCLE_CALL,
+        );
+      }
+      thread.start();
+      const uid = this.uid;
+      try {
+        this[reset]();
+      } catch (err) {
+        thread.stop();
+        throw err;
+      }
+      if (this[_constructed]) {
+        this.logger.error(
+          message.getError(
+            errors.Code.RESET_IMPL,
+            errors.Description.RESET_IMPL,
+          ),
+        );
+        thread.stop();
+        throw new errors.Error(
+          errors.Code.RESET_IMPL,
+          errors.Description.RESET_IMPL,
+        );
+      }
+      this.logger.trace(() => message.getCheckpoint("recycle", uid));
+      this.logger.debug(() =>
+        message.getChanged("Monitorable", "_uid", this[_uid]),
+      );
+      this.logger.debug(() =>
+        message.getChanged("Monitorable", "_created", this[_created]),
+      );
+      this.runConstruct(options);
+      return this;
+    }
+
+    /**
+     * Objects which this object depends on, so they are destructed only
+     * after this one.
+     */
+    public get dependencies(): Array<Monitorable> {
+      return [...(dependencies.get(this) || [])];
+    }
+
+    /**
+     * Objects which depend on this object, so they are destructed before
+     * this one.
+     */
+    public get dependents(): Array<Monitorable> {
+      return [...(dependents.get(this) || [])];
+    }
+
+    /**
+     * Declares destruct-order dependency outside of the nodes relations: a
+     * given object must outlive this one, so destructing the `dependency`
+     * first destructs this object (and the rest of its dependents, in
+     * topological order, the latest declared first). Throws `DESTRUCT_CYCLE`
+     * error if the dependency forms a cycle.
+     *
+     * @example
+     * ```typescript
+     * const connection = new Connection();
+     * const cache = new Cache();
+     * cache.addDependency(connection);
+     * connection.destructor(); // cache is destructed first
+     * ```
+     *
+     * @param dependency Object to depend on.
+     */
+    public addDependency(dependency: Monitorable): void {
+      assertUndestructed(this, "addDependency");
+      assertUndestructed(dependency, "addDependency");
+      if ((dependencies.get(this) || []).indexOf(dependency) !== -1) {
+        return;
+      }
+      const path = findPath(dependency, this);
+      if (path) {
+        this.logger.error(
+          message.getError(
+            errors.Code.DESTRUCT_CYCLE,
+            `${errors.Description.DESTRUCT_CYCLE}: ${[this, ...path]
+              .map(describe)
+              .join(" -> ")}`,
+          ),
+        );
+        throw new errors.Error(
+          errors.Code.DESTRUCT_CYCLE,
+          errors.Description.DESTRUCT_CYCLE,
+        );
+      }
+      dependencies.set(this, [...(dependencies.get(this) || []), dependency]);
+      dependents.set(dependency, [...(dependents.get(dependency) || []), this]);
+      this.logger.debug(() =>
+        message.getCalled("dependencies", "Map", "set", [
+          this.uid,
+          dependency.uid,
+        ]),
+      );
+    }
+
+    /**
+     * Removes destruct-order dependency declared with the
+     * {@link Monitorable.addDependency | `addDependency`}.
+     * @param dependency Object to not depend on anymore.
+     */
+    public removeDependency(dependency: Monitorable): void {
+      if ((dependencies.get(this) || []).indexOf(dependency) === -1) {
+        return;
+      }
+      unlink(dependencies, this, dependency);
+      unlink(dependents, dependency, this);
+      this.logger.debug(() =>
+        message.getCalled("dependencies", "Map", "delete", [
+          this.uid,
+          dependency.uid,
+        ]),
+      );
+    }
+
+    /**
+     * Returns structured snapshot of the object state. Subclasses extend the
+     * snapshot with their own state, so it's safe to call on destructed
+     * objects.
+     */
+    public inspect(): Snapshot {
+      return {
+        uid: this.uid,
+        className: this.className,
+        constructed: this.constructed,
+        destructed: this.destructed,
+      };
+    }
+
+    /**
+     * Returns JSON representation of the object, equal to the
+     * {@link Monitorable.inspect | `inspect()`} snapshot.
+     */
+    public toJSON(): Snapshot {
+      return this.inspect();
+    }
+
+    /**
+     * Returns `util.inspect` (and so `console.log`) representation of the
+     * object: class name followed by the object snapshot.
+     * @param depth Current recursion depth.
+     * @param options Inspect options.
+     */
+    public [util.inspect.custom](
+      depth: number,
+      options: util.InspectOptionsStylized,
+    ): string {
+      if (depth < 0) {
+        return options.stylize(`[${this.className}]`, "special");
+      }
+      return `${this.className} ${util.inspect(this.inspect(), {
+        ...options,
+        depth: options.depth === null ? null : (options.depth as number) - 1,
+      })}`;
+    }
+
+    /**
+     * Runs the {@link [destructNestedAsync] | `[destructNestedAsync]`} and
+     * the {@link [destructAsync] | `[destructAsync]`} hierarchies and the
+     * synchronous destruction.
+     * @param timeout Timeout of the `[destructAsync]` phase, ms.
+     */
+    private async runDestructAsync(timeout: number): Promise<void> {
+      const failures: Array<unknown> = [];
+      const fail = (err: unknown): void => {
+        failures.push(err);
+        this.logger.error(
+          err instanceof errors.Error
+            ? message.getError(err.code, err.message)
+            : message.getError(
+                errors.Code.UNHANDLED_ERR,
+                (err as Error).message,
+              ),
+        );
+      };
+      this.logger.trace(() =>
+        message.getCheckpoint("destructAsync", "Monitorable"),
+      );
+      try {
+        await this[destructNestedAsync](timeout);
+      } catch (err) {
+        fail(err);
+      }
+      try {
+        await deadline(this[destructAsync](timeout), timeout);
+      } catch (err) {
+        fail(err);
+      }
+      try {
+        if (!this.destructed) {
+          this.destructor();
+        }
+      } catch (err) {
+        // destruct failure is already logged by the destructor
+        failures.push(err);
+      } finally {
+        this[_destructAsync] = null;
+      }
+      if (failures.length === 1) {
+        throw failures[0];
+      } else if (failures.length > 1) {
+        throw new errors.AggregateError(
+          errors.Code.DESTRUCT_ASYNC,
+          errors.Description.DESTRUCT_ASYNC,
+          failures,
+        );
+      }
+    }
   }
+
+  /**
+   * Returns undestructed objects whose last destruction attempt failed.
+   */
+  export const failed = (): Array<Monitorable> => {
+    return [...undestructed.values()].filter(
+      (obj) => obj.destructFailure !== null,
+    );
+  };
+
+  /**
+   * Retries destruction of the {@link failed} objects in reverse order of
+   * their construction. Failures don't stop the rest of objects from the
+   * destruction and are thrown afterwards (several failures are wrapped into
+   * the `DESTRUCT_PARTIAL` aggregate error).
+   */
+  export const retryFailed = (): void => {
+    const failures: Array<unknown> = [];
+    failed()
+      .reverse()
+      .forEach((obj) => {
+        try {
+          if (!obj.destructed) {
+            obj.destructor();
+          }
+        } catch (err) {
+          failures.push(err);
+        }
+      });
+    if (failures.length === 1) {
+      throw failures[0];
+    } else if (failures.length > 1) {
+      throw new errors.AggregateError(
+        errors.Code.DESTRUCT_PARTIAL,
+        errors.Description.DESTRUCT_PARTIAL,
+        failures,
+      );
+    }
+  };
 }
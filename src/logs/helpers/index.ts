@@ -10,6 +10,7 @@
 import { helpers as ns0 } from "./parseMsg";
 import { helpers as ns1 } from "./getUid";
 import { helpers as ns2 } from "./getStack";
+import { helpers as ns3 } from "./isRelated";
 
 /**
  * Helper functions namespace.
@@ -18,4 +19,5 @@ export namespace helpers {
   export import parseMsg = ns0.parseMsg;
   export import getUid = ns1.getUid;
   export import getStack = ns2.getStack;
+  export import isRelated = ns3.isRelated;
 }
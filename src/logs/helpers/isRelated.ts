@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Declaration of the isRelated function.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logger } from "../logger/Log";
+import { message as msg } from "../message";
+export namespace helpers {
+  import Log = logger.Log;
+  import Type = msg.Type;
+  import Inserted = msg.Inserted;
+  import Replaced = msg.Replaced;
+  import Removed = msg.Removed;
+
+  /**
+   * Returns true if a given log relates to the object with a given uid, false
+   * otherwise. Log relates to the object if it was populated by the object's
+   * logger or if its tree message refers to the object.
+   *
+   * @param log Log to check.
+   * @param uid Object uid.
+   */
+  export function isRelated(log: Log, uid: string): boolean {
+    if (log.logger.uid === uid) {
+      return true;
+    }
+    switch (log.type) {
+      case Type.inserted:
+        return (
+          (log.message as Inserted).child === uid ||
+          (log.message as Inserted).before === uid
+        );
+      case Type.replaced:
+        return (
+          (log.message as Replaced).existing === uid ||
+          (log.message as Replaced).to === uid
+        );
+      case Type.removed:
+        return (log.message as Removed).child === uid;
+      default:
+        return false;
+    }
+  }
+}
@@ -10,6 +10,16 @@ import { helpers } from "./helpers";
 import { logger } from "./logger";
 import { message } from "./message";
 import { level } from "./level";
+import { sink } from "./sink";
+import { thread } from "./thread";
+import { replay } from "./replay";
+import { trace } from "./trace";
+import { leaks } from "./leaks";
+import { lifecycle } from "./lifecycle";
+import { scope } from "./scope";
+import { registry } from "./registry";
+import { pool } from "./pool";
+import { ref } from "./ref";
 import { logs } from "./Monitorable";
 describe("Logs namespace export test suite", () => {
   test("export object is defined", () => {
@@ -22,6 +32,10 @@ describe("Logs namespace export test suite", () => {
     expect(Object.keys(regular_import.logs)).toContain("Type");
     expect(regular_import.logs.Type).toEqual(message.Type);
   });
+  test("logs.Lifecycle enum is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("Lifecycle");
+    expect(regular_import.logs.Lifecycle).toEqual(lifecycle.Lifecycle);
+  });
   test("logs.Level enum is exported", () => {
     expect(Object.keys(regular_import.logs)).toContain("Level");
     expect(regular_import.logs.Level).toEqual(level.Level);
@@ -38,6 +52,70 @@ describe("Logs namespace export test suite", () => {
     expect(Object.keys(regular_import.logs)).toContain("Buffer");
     expect(regular_import.logs.Buffer).toEqual(logger.Buffer);
   });
+  test("logs.DropPolicy enum is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("DropPolicy");
+    expect(regular_import.logs.DropPolicy).toEqual(logger.DropPolicy);
+  });
+  test("logs.Sink class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("Sink");
+    expect(regular_import.logs.Sink).toEqual(sink.Sink);
+  });
+  test("logs.ConsoleSink class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("ConsoleSink");
+    expect(regular_import.logs.ConsoleSink).toEqual(sink.ConsoleSink);
+  });
+  test("logs.MemorySink class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("MemorySink");
+    expect(regular_import.logs.MemorySink).toEqual(sink.MemorySink);
+  });
+  test("logs.FileSink class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("FileSink");
+    expect(regular_import.logs.FileSink).toEqual(sink.FileSink);
+  });
+  test("logs.StoreSink class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("StoreSink");
+    expect(regular_import.logs.StoreSink).toEqual(sink.StoreSink);
+  });
+  test("logs.PrettySink class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("PrettySink");
+    expect(regular_import.logs.PrettySink).toEqual(sink.PrettySink);
+  });
+  test("logs.Replayer class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("Replayer");
+    expect(regular_import.logs.Replayer).toEqual(replay.Replayer);
+  });
+  test("logs.State class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("State");
+    expect(regular_import.logs.State).toEqual(replay.State);
+  });
+  test("logs.Span class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("Span");
+    expect(regular_import.logs.Span).toEqual(trace.Span);
+  });
+  test("logs.OtlpExporter class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("OtlpExporter");
+    expect(regular_import.logs.OtlpExporter).toEqual(trace.OtlpExporter);
+  });
+  test("logs.ChromeExporter class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("ChromeExporter");
+    expect(regular_import.logs.ChromeExporter).toEqual(trace.ChromeExporter);
+  });
+  test("logs.Leak class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("Leak");
+    expect(regular_import.logs.Leak).toEqual(leaks.Leak);
+  });
+  test("logs.Scope class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("Scope");
+    expect(regular_import.logs.Scope).toEqual(scope.Scope);
+  });
+  test("logs.Pool class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("Pool");
+    expect(regular_import.logs.Pool).toEqual(pool.Pool);
+  });
+  test("logs.Ref class is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("Ref");
+    expect(regular_import.logs.Ref).toEqual(ref.Ref);
+  });
   test("logs.Monitorable class is exported", () => {
     expect(Object.keys(regular_import.logs)).toContain("Monitorable");
     expect(regular_import.logs.Monitorable).toEqual(logs.Monitorable);
@@ -70,8 +148,76 @@ describe("Logs namespace export test suite", () => {
     expect(Object.keys(regular_import.logs)).toContain("setBuffer");
     expect(regular_import.logs.setBuffer).toEqual(logger.setBuffer);
   });
+  test("logs.addSink function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("addSink");
+    expect(regular_import.logs.addSink).toEqual(logger.addSink);
+  });
+  test("logs.removeSink function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("removeSink");
+    expect(regular_import.logs.removeSink).toEqual(logger.removeSink);
+  });
+  test("logs.flush function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("flush");
+    expect(regular_import.logs.flush).toEqual(logger.flush);
+  });
+  test("logs.drainOnExit function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("drainOnExit");
+    expect(regular_import.logs.drainOnExit).toEqual(logger.drainOnExit);
+  });
+  test("logs.parse function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("parse");
+    expect(regular_import.logs.parse).toEqual(logger.parse);
+  });
   test("logs.setLevel function is exported", () => {
     expect(Object.keys(regular_import.logs)).toContain("setLevel");
     expect(regular_import.logs.setLevel).toEqual(level.set);
   });
+  test("logs.runThread function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("runThread");
+    expect(regular_import.logs.runThread).toEqual(thread.run);
+  });
+  test("logs.correlate function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("correlate");
+    expect(regular_import.logs.correlate).toEqual(thread.correlate);
+  });
+  test("logs.detectLeaks function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("detectLeaks");
+    expect(regular_import.logs.detectLeaks).toEqual(leaks.detect);
+  });
+  test("logs.collectedLeaks function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("collectedLeaks");
+    expect(regular_import.logs.collectedLeaks).toEqual(leaks.collected);
+  });
+  test("logs.observe function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("observe");
+    expect(regular_import.logs.observe).toEqual(lifecycle.observe);
+  });
+  test("logs.failedDestructs function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("failedDestructs");
+    expect(regular_import.logs.failedDestructs).toEqual(logs.failed);
+  });
+  test("logs.retryFailedDestructs function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("retryFailedDestructs");
+    expect(regular_import.logs.retryFailedDestructs).toEqual(logs.retryFailed);
+  });
+  test("logs.classes function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("classes");
+    expect(regular_import.logs.classes).toEqual(registry.classes);
+  });
+  test("logs.classStats function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("classStats");
+    expect(regular_import.logs.classStats).toEqual(registry.stats);
+  });
+  test("logs.instances function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("instances");
+    expect(regular_import.logs.instances).toEqual(registry.instances);
+  });
+  test("logs.lookup function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("lookup");
+    expect(regular_import.logs.lookup).toEqual(registry.lookup);
+  });
+  test("logs.liveInstances function is exported", () => {
+    expect(Object.keys(regular_import.logs)).toContain("liveInstances");
+    expect(regular_import.logs.liveInstances).toEqual(registry.live);
+  });
 });
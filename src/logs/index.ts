@@ -12,6 +12,15 @@ import { thread as thrd } from "./thread";
 import { level as lvl } from "./level";
 import { logger as lgr } from "./logger";
 import { message as msg } from "./message";
+import { sink as snk } from "./sink";
+import { replay as rpl } from "./replay";
+import { trace as trc } from "./trace";
+import { leaks as lks } from "./leaks";
+import { lifecycle as lfc } from "./lifecycle";
+import { scope as scp } from "./scope";
+import { registry as rgs } from "./registry";
+import { pool as pl } from "./pool";
+import { ref as rf } from "./ref";
 import { logs as l } from "./Monitorable";
 
 /**
@@ -19,8 +28,20 @@ import { logs as l } from "./Monitorable";
  */
 export namespace logNS {
   export import undestructed = l.undestructed;
+  export import failed = l.failed;
+  export import assertUndestructed = l.assertUndestructed;
   export import Monitorable = l.Monitorable;
+  export import Snapshot = l.Snapshot;
   export import message = msg;
+  export import sink = snk;
+  export import replay = rpl;
+  export import trace = trc;
+  export import leaks = lks;
+  export import lifecycle = lfc;
+  export import scope = scp;
+  export import registry = rgs;
+  export import pool = pl;
+  export import ref = rf;
   export import logger = lgr;
   export import thread = thrd;
   export import level = lvl;
@@ -34,11 +55,33 @@ export namespace logNS {
  */
 export namespace logs {
   export import Log = lgr.Log;
+  export import LogJSON = lgr.LogJSON;
   export import Type = msg.Type;
+  export import Lifecycle = lfc.Lifecycle;
   export import Level = lvl.Level;
   export import Logger = lgr.Logger;
   export import Buffer = lgr.Buffer;
+  export import DropPolicy = lgr.DropPolicy;
+  export import Sink = snk.Sink;
+  export import ConsoleSink = snk.ConsoleSink;
+  export import MemorySink = snk.MemorySink;
+  export import FileSink = snk.FileSink;
+  export import StoreSink = snk.StoreSink;
+  export import PrettySink = snk.PrettySink;
+  export import Replayer = rpl.Replayer;
+  export import State = rpl.State;
+  export import Span = trc.Span;
+  export import OtlpExporter = trc.OtlpExporter;
+  export import ChromeExporter = trc.ChromeExporter;
+  export import Leak = lks.Leak;
+  export import ClassStats = rgs.ClassStats;
+  export import Instance = rgs.Instance;
+  export import Scope = scp.Scope;
+  export import Pool = pl.Pool;
+  export import PoolOptions = pl.PoolOptions;
+  export import Ref = rf.Ref;
   export import Monitorable = l.Monitorable;
+  export import Snapshot = l.Snapshot;
   export import getCalled = msg.getCalled;
   export import getChanged = msg.getChanged;
   export import getCheckpoint = msg.getCheckpoint;
@@ -46,5 +89,22 @@ export namespace logs {
   export import getStack = helpers.getStack;
   export import getUid = helpers.getUid;
   export import setBuffer = lgr.setBuffer;
+  export import addSink = lgr.addSink;
+  export import removeSink = lgr.removeSink;
+  export import flush = lgr.flush;
+  export import drainOnExit = lgr.drainOnExit;
+  export import parse = lgr.parse;
   export import setLevel = lvl.set;
+  export import runThread = thrd.run;
+  export import correlate = thrd.correlate;
+  export import detectLeaks = lks.detect;
+  export import collectedLeaks = lks.collected;
+  export import observe = lfc.observe;
+  export import failedDestructs = l.failed;
+  export import retryFailedDestructs = l.retryFailed;
+  export import classes = rgs.classes;
+  export import classStats = rgs.stats;
+  export import instances = rgs.instances;
+  export import lookup = rgs.lookup;
+  export import liveInstances = rgs.live;
 }
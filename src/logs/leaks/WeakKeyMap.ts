@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Declaration of the WeakKeyMap class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logs } from "../Monitorable";
+export namespace leaks {
+  import Monitorable = logs.Monitorable;
+
+  /**
+   * Map which holds its keys weakly, like the `WeakMap`, but still could be
+   * iterated (in the order of insertion) and its size could be read. An entry
+   * disappears as soon as its key is garbage-collected.
+   */
+  export class WeakKeyMap<K extends Monitorable, V> extends Map<K, V> {
+    /**
+     * Values by the keys.
+     */
+    private items: WeakMap<K, V> = new WeakMap();
+
+    /**
+     * Keys references by the keys.
+     */
+    private refs: WeakMap<K, WeakRef<K>> = new WeakMap();
+
+    /**
+     * Keys references in the order of insertion.
+     */
+    private order: Set<WeakRef<K>> = new Set();
+
+    /**
+     * Cleans up references of the garbage-collected keys.
+     */
+    private registry = new FinalizationRegistry<WeakRef<K>>((ref) => {
+      this.order.delete(ref);
+    });
+
+    /**
+     * Number of the alive keys.
+     */
+    get size(): number {
+      let size = 0;
+      this.order.forEach((ref) => {
+        if (ref.deref() !== undefined) {
+          size++;
+        }
+      });
+      return size;
+    }
+
+    /**
+     * Returns value of a given key, if any.
+     * @param key Value key.
+     */
+    get(key: K): undefined | V {
+      return this.items.get(key);
+    }
+
+    /**
+     * Whether value of a given key exists.
+     * @param key Value key.
+     */
+    has(key: K): boolean {
+      return this.items.has(key);
+    }
+
+    /**
+     * Sets value of a given key.
+     * @param key Value key.
+     * @param value Value.
+     */
+    set(key: K, value: V): this {
+      if (!this.refs.has(key)) {
+        const ref = new WeakRef(key);
+        this.refs.set(key, ref);
+        this.order.add(ref);
+        this.registry.register(key, ref, ref);
+      }
+      this.items.set(key, value);
+      return this;
+    }
+
+    /**
+     * Deletes value of a given key. Returns true if it existed.
+     * @param key Value key.
+     */
+    delete(key: K): boolean {
+      const ref = this.refs.get(key);
+      if (!ref) {
+        return false;
+      }
+      this.order.delete(ref);
+      this.registry.unregister(ref);
+      this.refs.delete(key);
+      this.items.delete(key);
+      return true;
+    }
+
+    /**
+     * Deletes all values.
+     */
+    clear(): void {
+      [...this.keys()].forEach((key) => this.delete(key));
+    }
+
+    /**
+     * Calls callback for each alive entry.
+     * @param callback Callback to call.
+     */
+    forEach(callback: (value: V, key: K, map: Map<K, V>) => void): void {
+      [...this.entries()].forEach(([key, value]) => callback(value, key, this));
+    }
+
+    /**
+     * Returns iterator of the alive entries.
+     */
+    *entries(): IterableIterator<[K, V]> {
+      for (const ref of this.order) {
+        const key = ref.deref();
+        if (key !== undefined) {
+          yield [key, this.items.get(key) as V];
+        }
+      }
+    }
+
+    /**
+     * Returns iterator of the alive keys.
+     */
+    *keys(): IterableIterator<K> {
+      for (const [key] of this.entries()) {
+        yield key;
+      }
+    }
+
+    /**
+     * Returns iterator of the values of the alive keys.
+     */
+    *values(): IterableIterator<V> {
+      for (const [, value] of this.entries()) {
+        yield value;
+      }
+    }
+
+    /**
+     * Returns iterator of the alive entries.
+     */
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+      return this.entries();
+    }
+  }
+}
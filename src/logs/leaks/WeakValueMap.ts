@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Declaration of the WeakValueMap class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logs } from "../Monitorable";
+export namespace leaks {
+  import Monitorable = logs.Monitorable;
+
+  /**
+   * Map which holds its values weakly. An entry disappears as soon as its
+   * value is garbage-collected, so the map never keeps objects alive by
+   * itself. It's still a `Map` for the consumers: it could be iterated and
+   * its size could be read.
+   */
+  export class WeakValueMap<K, V extends Monitorable> extends Map<K, V> {
+    /**
+     * Values references.
+     */
+    private refs: Map<K, WeakRef<V>> = new Map();
+
+    /**
+     * Cleans up references of the garbage-collected values.
+     */
+    private registry = new FinalizationRegistry<K>((key) => {
+      const ref = this.refs.get(key);
+      if (ref && ref.deref() === undefined) {
+        this.refs.delete(key);
+      }
+    });
+
+    /**
+     * Number of the alive values.
+     */
+    get size(): number {
+      let size = 0;
+      this.refs.forEach((ref) => {
+        if (ref.deref() !== undefined) {
+          size++;
+        }
+      });
+      return size;
+    }
+
+    /**
+     * Returns value of a given key, or `undefined` if there is no such value
+     * or it's already garbage-collected.
+     * @param key Value key.
+     */
+    get(key: K): undefined | V {
+      const ref = this.refs.get(key);
+      return ref ? ref.deref() : undefined;
+    }
+
+    /**
+     * Whether alive value of a given key exists.
+     * @param key Value key.
+     */
+    has(key: K): boolean {
+      return this.get(key) !== undefined;
+    }
+
+    /**
+     * Sets value of a given key.
+     * @param key Value key.
+     * @param value Value.
+     */
+    set(key: K, value: V): this {
+      this.delete(key);
+      this.refs.set(key, new WeakRef(value));
+      this.registry.register(value, key, value);
+      return this;
+    }
+
+    /**
+     * Deletes value of a given key. Returns true if alive value existed.
+     * @param key Value key.
+     */
+    delete(key: K): boolean {
+      const value = this.get(key);
+      this.refs.delete(key);
+      if (value === undefined) {
+        return false;
+      }
+      this.registry.unregister(value);
+      return true;
+    }
+
+    /**
+     * Deletes all values.
+     */
+    clear(): void {
+      [...this.refs.keys()].forEach((key) => this.delete(key));
+    }
+
+    /**
+     * Calls callback for each alive value.
+     * @param callback Callback to call.
+     */
+    forEach(callback: (value: V, key: K, map: Map<K, V>) => void): void {
+      [...this.entries()].forEach(([key, value]) => callback(value, key, this));
+    }
+
+    /**
+     * Returns iterator of the alive entries.
+     */
+    *entries(): IterableIterator<[K, V]> {
+      for (const [key, ref] of this.refs) {
+        const value = ref.deref();
+        if (value !== undefined) {
+          yield [key, value];
+        }
+      }
+    }
+
+    /**
+     * Returns iterator of the alive values keys.
+     */
+    *keys(): IterableIterator<K> {
+      for (const [key] of this.entries()) {
+        yield key;
+      }
+    }
+
+    /**
+     * Returns iterator of the alive values.
+     */
+    *values(): IterableIterator<V> {
+      for (const [, value] of this.entries()) {
+        yield value;
+      }
+    }
+
+    /**
+     * Returns iterator of the alive entries.
+     */
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+      return this.entries();
+    }
+  }
+}
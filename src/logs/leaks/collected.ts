@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Declaration of the garbage-collected objects tracking.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logger } from "../logger/Logger";
+import { logs } from "../Monitorable";
+export namespace leaks {
+  import Logger = logger.Logger;
+  import Monitorable = logs.Monitorable;
+
+  /**
+   * Object which was garbage-collected without the destructor call.
+   */
+  export interface Collected {
+    uid: string;
+    name: string;
+    created: Date;
+    stack: string;
+  }
+
+  /**
+   * Maximum number of the remembered collected objects.
+   */
+  const MAX_COLLECTED = 1000;
+
+  /**
+   * Remembered collected objects.
+   */
+  let records: Array<Collected> = [];
+
+  /**
+   * Registry of the undestructed objects.
+   */
+  const registry = new FinalizationRegistry<Collected>((record) => {
+    records.push(record);
+    if (records.length > MAX_COLLECTED) {
+      records.shift();
+    }
+    new Logger(record.uid).warn(
+      `{${record.uid}} (${record.name}) is garbage-collected without destructor`,
+    );
+  });
+
+  /**
+   * Starts tracking of the object garbage collection.
+   * @param obj Constructed object.
+   */
+  export const watch = (obj: Monitorable): void => {
+    registry.register(
+      obj,
+      {
+        uid: obj.uid,
+        name: obj.className,
+        created: obj.constructed,
+        stack: obj.stack,
+      },
+      obj,
+    );
+  };
+
+  /**
+   * Stops tracking of the object garbage collection.
+   * @param obj Destructed object.
+   */
+  export const unwatch = (obj: Monitorable): void => {
+    registry.unregister(obj);
+  };
+
+  /**
+   * Returns objects which were garbage-collected without the destructor call
+   * (up to the last 1000 ones), the earliest collected first.
+   */
+  export const collected = (): Array<Collected> => {
+    return [...records];
+  };
+
+  /**
+   * Forgets remembered collected objects.
+   */
+  export const clear = (): void => {
+    records = [];
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Leaks detection test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import * as childProcess from "child_process";
+import * as path from "path";
+import { logs, logNS } from "../index";
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+/**
+ * Monitorable child class to test.
+ */
+class Leaking extends logs.Monitorable {}
+
+describe("Leaks detection", () => {
+  const objects: Array<logs.Monitorable> = [];
+  const create = () => {
+    objects.push(new Leaking());
+  };
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+    for (let i = 0; i < 3; i++) {
+      create();
+    }
+    objects.push(new Leaking());
+  });
+
+  afterAll(() => {
+    objects.forEach((obj) => obj.destructor());
+  });
+
+  test("old objects are grouped by instantiation stack", () => {
+    const now = new Date(Date.now() + 1000);
+    const found = logs
+      .detectLeaks({ age: 500, now })
+      .filter((leak) => leak.classes.indexOf("Leaking") !== -1);
+    expect(found.length).toEqual(2);
+    expect(found[0].objects).toEqual(objects.slice(0, 3));
+    expect(found[0].stack).toEqual(objects[0].stack);
+    expect(found[0].oldest).toEqual(objects[0].constructed);
+    expect(found[1].objects).toEqual([objects[3]]);
+  });
+
+  test("objects beyond the count per class are reported", () => {
+    const found = (count: number) =>
+      logs
+        .detectLeaks({ count })
+        .filter((leak) => leak.classes.indexOf("Leaking") !== -1);
+    expect(found(4)).toEqual([]);
+    expect(found(3).length).toEqual(2);
+  });
+
+  test("young objects are not reported", () => {
+    expect(
+      logs
+        .detectLeaks({ age: 60000 })
+        .filter((leak) => leak.classes.indexOf("Leaking") !== -1),
+    ).toEqual([]);
+  });
+
+  test("destructed objects are not tracked", () => {
+    const obj = new Leaking();
+    expect(logNS.undestructed.get(obj.uid)).toBe(obj);
+    obj.destructor();
+    expect(logNS.undestructed.has(obj.uid)).toBeFalsy();
+    expect(logs.collectedLeaks()).toEqual([]);
+  });
+});
+
+describe("Collected leaks tracking", () => {
+  /**
+   * Script which leaks object, forces the garbage collection and prints
+   * the collected records and the warning logs.
+   */
+  const script = `
+    const { logs } = require(${JSON.stringify(
+      path.resolve(__dirname, "..", "index"),
+    )});
+    const { tree } = require(${JSON.stringify(
+      path.resolve(__dirname, "..", "..", "tree"),
+    )});
+    const warnings = [];
+    class TestBuffer extends logs.Buffer {
+      add(log) {
+        if (log.level === logs.Level.WARN) {
+          warnings.push({ logger: log.logger.uid, message: log.message });
+        }
+        return Promise.resolve(true);
+      }
+    }
+    class Leaking extends logs.Monitorable {}
+    logs.setBuffer(new TestBuffer());
+    const uid = (() => new Leaking().uid)();
+    const node = (() => new tree.Node().insert(new tree.Node()).uid)();
+    const collect = async (attempts) => {
+      global.gc();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      if (logs.collectedLeaks().length < 3 && attempts > 1) {
+        await collect(attempts - 1);
+      }
+    };
+    void collect(100).then(() => {
+      process.stdout.write(
+        JSON.stringify({
+          uid,
+          node,
+          collected: logs.collectedLeaks(),
+          warnings,
+        }),
+      );
+    });
+  `;
+
+  test("weakly held maps are still maps", () => {
+    const obj = new Leaking();
+    expect(logNS.undestructed instanceof Map).toBeTruthy();
+    expect([...logNS.undestructed.keys()]).toContain(obj.uid);
+    const size = logNS.undestructed.size;
+    obj.destructor();
+    expect(logNS.undestructed.size).toEqual(size - 1);
+
+    const map = new logNS.leaks.WeakKeyMap<logs.Monitorable, number>();
+    const key = new Leaking();
+    map.set(key, 1);
+    expect(map instanceof Map).toBeTruthy();
+    expect(map.size).toEqual(1);
+    expect([...map]).toEqual([[key, 1]]);
+    expect(map.delete(key)).toBeTruthy();
+    expect(map.has(key)).toBeFalsy();
+    expect(map.size).toEqual(0);
+    key.destructor();
+  });
+
+  test("object collected without destructor is reported", () => {
+    const output = childProcess.execFileSync(
+      process.execPath,
+      ["--expose-gc", "-e", script],
+      { encoding: "utf8", timeout: 30000 },
+    );
+    const result = JSON.parse(output) as {
+      uid: string;
+      node: string;
+      collected: Array<{ uid: string; name: string; stack: string }>;
+      warnings: Array<{ logger: string; message: string }>;
+    };
+    const leaking = result.collected.filter((item) => item.uid === result.uid);
+    expect(leaking.length).toEqual(1);
+    expect(leaking[0].name).toEqual("Leaking");
+    expect(leaking[0].stack).toContain("Leaking");
+    expect(result.warnings).toContainEqual({
+      logger: result.uid,
+      message: `{${result.uid}} (Leaking) is garbage-collected without destructor`,
+    });
+    // nodes indexes and listeners maps don't keep nodes alive
+    expect(result.collected.length).toEqual(3);
+    expect(
+      result.collected.filter((item) => item.uid === result.node)[0].name,
+    ).toEqual("Node");
+  });
+});
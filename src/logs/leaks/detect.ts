@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Declaration of the Leak class and the detect function.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logs } from "../Monitorable";
+export namespace leaks {
+  import Monitorable = logs.Monitorable;
+
+  /**
+   * Group of the suspected to leak objects instantiated from the same place.
+   */
+  export class Leak {
+    /**
+     * Objects instantiation stack.
+     */
+    stack: string;
+
+    /**
+     * Suspected objects, the oldest first.
+     */
+    objects: Array<Monitorable> = [];
+
+    /**
+     * Class constructor.
+     * @param stack Objects instantiation stack.
+     */
+    constructor(stack: string) {
+      this.stack = stack;
+    }
+
+    /**
+     * Instantiation moment of the oldest object.
+     */
+    get oldest(): Date {
+      return this.objects[0].constructed;
+    }
+
+    /**
+     * Names of the objects classes.
+     */
+    get classes(): Array<string> {
+      return [...new Set(this.objects.map((obj) => obj.className))];
+    }
+  }
+
+  /**
+   * Returns undestructed objects suspected to leak, grouped by instantiation
+   * stack. Object is suspected if it's alive longer than the `age` threshold
+   * or if the number of the undestructed objects of its class exceeds the
+   * `count` threshold. Groups are ordered by the number of objects, the
+   * largest first.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * logs.detectLeaks({ age: 60000, count: 1000 }).forEach((leak) => {
+   *   console.warn(leak.classes, leak.objects.length, leak.stack);
+   * });
+   * ```
+   *
+   * @param options Thresholds:
+   * @param options.age Maximum object age, ms.
+   * @param options.count Maximum number of the undestructed objects per
+   * class.
+   * @param options.now Moment to calculate objects age at (current moment by
+   * default).
+   */
+  export const detect = (options: {
+    age?: number;
+    count?: number;
+    now?: Date;
+  }): Array<Leak> => {
+    const now = (options.now || new Date()).getTime();
+    const objects = [...logs.undestructed.values()];
+    const counts: Map<unknown, number> = new Map();
+    objects.forEach((obj) => {
+      counts.set(obj.constructor, (counts.get(obj.constructor) || 0) + 1);
+    });
+    const groups: Map<string, Leak> = new Map();
+    objects
+      .filter(
+        (obj) =>
+          (options.age !== undefined &&
+            now - obj.constructed.getTime() >= options.age) ||
+          (options.count !== undefined &&
+            (counts.get(obj.constructor) as number) > options.count),
+      )
+      .sort((a, b) => a.constructed.getTime() - b.constructed.getTime())
+      .forEach((obj) => {
+        let leak = groups.get(obj.stack);
+        if (!leak) {
+          leak = new Leak(obj.stack);
+          groups.set(obj.stack, leak);
+        }
+        leak.objects.push(obj);
+      });
+    return [...groups.values()].sort(
+      (a, b) => b.objects.length - a.objects.length,
+    );
+  };
+}
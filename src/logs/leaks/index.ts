@@ -0,0 +1,28 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the leaks namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { leaks as ns0 } from "./detect";
+import { leaks as ns1 } from "./collected";
+import { leaks as ns2 } from "./WeakValueMap";
+import { leaks as ns3 } from "./WeakKeyMap";
+
+/**
+ * Leaks detection namespace.
+ */
+export namespace leaks {
+  export import Leak = ns0.Leak;
+  export import detect = ns0.detect;
+  export import Collected = ns1.Collected;
+  export import watch = ns1.watch;
+  export import unwatch = ns1.unwatch;
+  export import collected = ns1.collected;
+  export import clear = ns1.clear;
+  export import WeakValueMap = ns2.WeakValueMap;
+  export import WeakKeyMap = ns3.WeakKeyMap;
+}
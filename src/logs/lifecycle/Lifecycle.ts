@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Declaration of the Lifecycle enum.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+export namespace lifecycle {
+  /**
+   * Monitorable object lifecycle notifications enum.
+   */
+  export enum Lifecycle {
+    CONSTRUCTED = "constructed",
+    DESTRUCTED = "destructed",
+    CONSTRUCT_FAILED = "construct-failed",
+    DESTRUCT_FAILED = "destruct-failed",
+  }
+}
@@ -0,0 +1,21 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the lifecycle namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { lifecycle as ns0 } from "./Lifecycle";
+import { lifecycle as ns1 } from "./observe";
+
+/**
+ * Objects lifecycle observation namespace.
+ */
+export namespace lifecycle {
+  export import Lifecycle = ns0.Lifecycle;
+  export import Observer = ns1.Observer;
+  export import observe = ns1.observe;
+  export import notify = ns1.notify;
+}
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Lifecycle observers test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../../symbols";
+import { errors } from "../../errors";
+import { logs } from "../index";
+import destruct = symbolsNS.destruct;
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+/**
+ * Monitorable child class to test.
+ */
+class Observed extends logs.Monitorable {}
+
+/**
+ * Monitorable child class with the failing destructor.
+ */
+class Failing extends logs.Monitorable {
+  /**
+   * @override
+   */
+  protected [destruct](): void {
+    throw new Error("failing destruct");
+  }
+}
+
+describe("Lifecycle observers", () => {
+  const calls: Array<[logs.Monitorable, logs.Lifecycle, unknown]> = [];
+  const observer = (
+    obj: logs.Monitorable,
+    notification: logs.Lifecycle,
+    error?: unknown,
+  ) => {
+    calls.push([obj, notification, error]);
+  };
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+  });
+
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  test("all objects could be observed", () => {
+    const unobserve = [
+      logs.observe(logs.Lifecycle.CONSTRUCTED, observer),
+      logs.observe(logs.Lifecycle.DESTRUCTED, observer),
+    ];
+    const obj = new logs.Monitorable();
+    const observed = new Observed();
+    obj.destructor();
+    unobserve.forEach((fn) => fn());
+    observed.destructor();
+    expect(calls).toEqual([
+      [obj, logs.Lifecycle.CONSTRUCTED, undefined],
+      [observed, logs.Lifecycle.CONSTRUCTED, undefined],
+      [obj, logs.Lifecycle.DESTRUCTED, undefined],
+    ]);
+  });
+
+  test("objects of a given class could be observed", () => {
+    const unobserve = logs.observe(
+      logs.Lifecycle.CONSTRUCTED,
+      observer,
+      Observed,
+    );
+    const obj = new logs.Monitorable();
+    const observed = new Observed();
+    unobserve();
+    expect(calls).toEqual([[observed, logs.Lifecycle.CONSTRUCTED, undefined]]);
+    obj.destructor();
+    observed.destructor();
+  });
+
+  test("destruct failures are observed", () => {
+    const unobserve = logs.observe(logs.Lifecycle.DESTRUCT_FAILED, observer);
+    const obj = new Failing();
+    expect(() => obj.destructor()).toThrow("failing destruct");
+    unobserve();
+    expect(calls.length).toEqual(1);
+    expect(calls[0][0]).toBe(obj);
+    expect((calls[0][2] as Error).message).toEqual("failing destruct");
+  });
+
+  test("construct failures are observed", () => {
+    const unobserve = logs.observe(logs.Lifecycle.CONSTRUCT_FAILED, observer);
+    class Wrong extends logs.Monitorable {
+      protected [symbolsNS.construct](): void {
+        return;
+      }
+    }
+    expect(() => new Wrong()).toThrow();
+    unobserve();
+    expect(calls.length).toEqual(1);
+    expect((calls[0][2] as errors.Error).code).toEqual(
+      errors.Code.CONSTRUCT_IMPL,
+    );
+  });
+
+  test("observer failure doesn't affect object", () => {
+    const unobserve = logs.observe(logs.Lifecycle.CONSTRUCTED, () => {
+      throw new Error("observer");
+    });
+    let obj: null | logs.Monitorable = null;
+    expect(() => {
+      obj = new logs.Monitorable();
+    }).not.toThrow();
+    unobserve();
+    (obj as unknown as logs.Monitorable).destructor();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Declaration of the lifecycle observers registry.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { errors } from "../../errors";
+import { message } from "../message";
+import { logs } from "../Monitorable";
+import { lifecycle as ns } from "./Lifecycle";
+export namespace lifecycle {
+  import Monitorable = logs.Monitorable;
+  import Lifecycle = ns.Lifecycle;
+
+  /**
+   * Lifecycle observer. Receives the object, the notification and the
+   * occurred error for the failure notifications.
+   */
+  export type Observer = (
+    obj: Monitorable,
+    notification: Lifecycle,
+    error?: unknown,
+  ) => void;
+
+  /**
+   * Registered observers.
+   */
+  const observers: Set<{
+    notification: Lifecycle;
+    observer: Observer;
+    target?: abstract new (...args: never[]) => Monitorable;
+  }> = new Set();
+
+  /**
+   * Subscribes observer to the lifecycle notification of all `Monitorable`
+   * objects or of the instances of a given class only. Returns function which
+   * unsubscribes the observer.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * const unobserve = logs.observe(
+   *   logs.Lifecycle.DESTRUCTED,
+   *   (node) => metrics.decrement("nodes"),
+   *   Node,
+   * );
+   * ```
+   *
+   * @param notification Lifecycle notification.
+   * @param observer Observer to call.
+   * @param target Class which instances to observe (all objects by default).
+   */
+  export const observe = (
+    notification: Lifecycle,
+    observer: Observer,
+    target?: abstract new (...args: never[]) => Monitorable,
+  ): (() => void) => {
+    const entry = { notification, observer, target };
+    observers.add(entry);
+    return () => {
+      observers.delete(entry);
+    };
+  };
+
+  /**
+   * Notifies observers about the object lifecycle change. Observer failure is
+   * logged and doesn't affect other observers and the object itself.
+   * @param obj Monitorable object.
+   * @param notification Lifecycle notification.
+   * @param error Occurred error.
+   */
+  export const notify = (
+    obj: Monitorable,
+    notification: Lifecycle,
+    error?: unknown,
+  ): void => {
+    observers.forEach((entry) => {
+      if (
+        entry.notification === notification &&
+        (!entry.target || obj instanceof entry.target)
+      ) {
+        try {
+          entry.observer(obj, notification, error);
+        } catch (err) {
+          obj.logger.error(
+            message.getError(errors.Code.UNHANDLED_ERR, (err as Error).message),
+          );
+        }
+      }
+    });
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Buffer class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../../symbols";
+import { logs } from "../index";
+import sync = symbolsNS.sync;
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {
+  public run(logs: Set<logs.Log>): Promise<void> {
+    return this[sync](logs);
+  }
+}
+
+/**
+ * Logs buffer class which sync always rejects.
+ */
+class RejectingBuffer extends logs.Buffer {
+  protected [sync](): Promise<void> {
+    return Promise.reject(new Error("sync failed"));
+  }
+}
+
+/**
+ * Failing sink class for tests.
+ */
+class FailingSink extends logs.Sink {
+  public write(): void {
+    throw new Error("failing sink");
+  }
+}
+
+describe("Buffer sinks fan out", () => {
+  const logger = new logs.Logger("buffer", logs.Level.DEBUG);
+  const trace = new logs.Log(
+    logger,
+    null,
+    logs.Type.string,
+    logs.Level.TRACE,
+    "trace",
+  );
+  const debug = new logs.Log(
+    logger,
+    null,
+    logs.Type.string,
+    logs.Level.DEBUG,
+    "debug",
+  );
+  const warn = new logs.Log(
+    logger,
+    null,
+    logs.Type.string,
+    logs.Level.WARN,
+    "warn",
+  );
+  let buffer: TestBuffer;
+  let all: logs.MemorySink;
+  let warns: logs.MemorySink;
+  let failing: FailingSink;
+  let error: jest.SpyInstance;
+
+  beforeAll(() => {
+    error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    all = new logs.MemorySink();
+    warns = new logs.MemorySink(logs.Level.WARN);
+    failing = new FailingSink();
+    buffer = new TestBuffer([failing, all]);
+  });
+
+  afterAll(() => {
+    error.mockRestore();
+  });
+
+  test("sinks could be attached and detached", () => {
+    expect(buffer.sinks).toEqual([failing, all]);
+    expect(buffer.addSink(warns)).toBeTruthy();
+    expect(buffer.addSink(warns)).toBeFalsy();
+    expect(buffer.sinks).toEqual([failing, all, warns]);
+    expect(buffer.removeSink(warns)).toBeTruthy();
+    expect(buffer.removeSink(warns)).toBeFalsy();
+    expect(buffer.addSink(warns)).toBeTruthy();
+  });
+
+  test("logs are filtered by logger and sinks levels", async () => {
+    await buffer.run(new Set([trace, debug, warn]));
+    expect(all.logs).toEqual([debug, warn]);
+    expect(warns.logs).toEqual([warn]);
+  });
+
+  test("sink failure is isolated and counted", async () => {
+    expect(buffer.failures(failing)).toEqual(1);
+    expect(buffer.failures(all)).toEqual(0);
+    expect(error).toHaveBeenCalledTimes(1);
+    await expect(buffer.run(new Set([warn]))).resolves.toBeUndefined();
+    expect(buffer.failures(failing)).toEqual(2);
+    expect(warns.logs).toEqual([warn, warn]);
+  });
+
+  test("memory sink could be cleared", () => {
+    all.clear();
+    expect(all.logs).toEqual([]);
+  });
+});
+
+describe("Buffer limits and flushing", () => {
+  const logger = new logs.Logger("bounded", logs.Level.TRACE);
+  const getLog = (value: string, level = logs.Level.INFO): logs.Log =>
+    new logs.Log(logger, null, logs.Type.string, level, value);
+  let buffer: TestBuffer;
+  let sink: logs.MemorySink;
+
+  beforeEach(() => {
+    sink = new logs.MemorySink();
+    buffer = new TestBuffer([sink]);
+    buffer.timeout = 10000;
+  });
+
+  test("pending logs could be flushed explicitly", async () => {
+    const log = getLog("flushed");
+    void buffer.add(log);
+    expect(buffer.size).toEqual(1);
+    expect(sink.logs).toEqual([]);
+    await buffer.flush();
+    expect(buffer.size).toEqual(0);
+    expect(sink.logs).toEqual([log]);
+  });
+
+  test("oldest logs are dropped by default", async () => {
+    const items = [getLog("1"), getLog("2"), getLog("3")];
+    buffer.maxEntries = 2;
+    items.forEach((log) => void buffer.add(log));
+    expect(buffer.size).toEqual(2);
+    expect(buffer.dropped).toEqual(1);
+    await buffer.flush();
+    expect(sink.logs).toEqual(items.slice(1));
+  });
+
+  test("lowest level logs could be dropped", async () => {
+    const debug = getLog("debug", logs.Level.DEBUG);
+    const error = getLog("error", logs.Level.ERROR);
+    const trace = getLog("trace", logs.Level.TRACE);
+    const warn = getLog("warn", logs.Level.WARN);
+    buffer.maxEntries = 2;
+    buffer.policy = logs.DropPolicy.DROP_LOWEST;
+    void buffer.add(debug);
+    void buffer.add(error);
+    await expect(buffer.add(trace)).resolves.toBeFalsy();
+    void buffer.add(warn);
+    expect(buffer.dropped).toEqual(2);
+    await buffer.flush();
+    expect(sink.logs).toEqual([error, warn]);
+  });
+
+  test("blocking buffer flushes before adding", async () => {
+    const items = [getLog("1"), getLog("2"), getLog("3")];
+    buffer.maxEntries = 2;
+    buffer.policy = logs.DropPolicy.BLOCK;
+    const write = jest.spyOn(sink, "write");
+    void buffer.add(items[0]);
+    void buffer.add(items[1]);
+    await expect(buffer.add(items[2])).resolves.toBeTruthy();
+    expect(write.mock.calls).toEqual([[items.slice(0, 2)], [items.slice(2)]]);
+    expect(buffer.size).toEqual(0);
+    expect(buffer.dropped).toEqual(0);
+  });
+
+  test("blocked adds keep the logs order", async () => {
+    const items = [0, 1, 2, 3, 4].map((i) => getLog(String(i)));
+    buffer.maxEntries = 2;
+    buffer.policy = logs.DropPolicy.BLOCK;
+    await Promise.all(items.map((log) => buffer.add(log)));
+    await buffer.flush();
+    expect(sink.logs).toEqual(items);
+    expect(buffer.dropped).toEqual(0);
+  });
+
+  test("buffer could be limited by size", async () => {
+    const items = [getLog("1"), getLog("2"), getLog("3")];
+    buffer.maxBytes = JSON.stringify(items[0]).length * 2;
+    items.forEach((log) => void buffer.add(log));
+    expect(buffer.size).toEqual(2);
+    expect(buffer.dropped).toEqual(1);
+    await buffer.flush();
+    expect(sink.logs).toEqual(items.slice(1));
+  });
+
+  test("buffer size is measured in UTF-8 bytes", () => {
+    // each log is one byte longer than its JSON string length
+    buffer.maxBytes = JSON.stringify(getLog("a")).length * 2 + 1;
+    void buffer.add(getLog("\u00fc"));
+    void buffer.add(getLog("\u00fc"));
+    expect(buffer.size).toEqual(1);
+    expect(buffer.dropped).toEqual(1);
+  });
+
+  test("sync failure is reported by add", async () => {
+    const error = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    const rejecting = new RejectingBuffer([sink]);
+    await expect(rejecting.add(getLog("rejected"))).resolves.toBeFalsy();
+    expect(error).toHaveBeenCalledWith(
+      "Logging sync failed: Error: sync failed",
+    );
+    expect(rejecting.size).toEqual(1);
+    error.mockRestore();
+  });
+
+  test("exit handlers could be installed and removed", () => {
+    const before = process.listenerCount("beforeExit");
+    const sigterm = process.listenerCount("SIGTERM");
+    const dispose = logs.drainOnExit();
+    expect(process.listenerCount("beforeExit")).toEqual(before + 1);
+    expect(process.listenerCount("SIGTERM")).toEqual(sigterm + 1);
+    dispose();
+    expect(process.listenerCount("beforeExit")).toEqual(before);
+    expect(process.listenerCount("SIGTERM")).toEqual(sigterm);
+  });
+});
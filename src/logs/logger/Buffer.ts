@@ -5,20 +5,62 @@
  * @license Apache-2.0
  */
 
+import * as bytes from "buffer";
 import { symbolsNS } from "../../symbols";
-import { level } from "../level";
+import { sink as snk } from "../sink";
 import { logger as ns } from "./Log";
 import { debounce } from "throttle-debounce";
 export namespace logger {
   import Log = ns.Log;
-  import Level = level.Level;
+  import Sink = snk.Sink;
+  import ConsoleSink = snk.ConsoleSink;
   import _timeout = symbolsNS._timeout;
   import _buffer = symbolsNS._buffer;
   import _errors = symbolsNS._errors;
   import _debouncer = symbolsNS._debouncer;
+  import _sinks = symbolsNS._sinks;
+  import _failures = symbolsNS._failures;
+  import _dropped = symbolsNS._dropped;
+  import _bytes = symbolsNS._bytes;
+  import _maxBytes = symbolsNS._maxBytes;
+  import _blocked = symbolsNS._blocked;
+  import _scheduled = symbolsNS._scheduled;
+  import _release = symbolsNS._release;
   import sync = symbolsNS.sync;
   let canUpdate = true;
 
+  /**
+   * Behavior of the bounded buffer when a new log exceeds its limits.
+   */
+  export enum DropPolicy {
+    /**
+     * Oldest pending logs are dropped.
+     */
+    DROP_OLDEST = 0,
+
+    /**
+     * Pending logs of the lowest level are dropped (oldest first). A new log
+     * itself is dropped if its level is lower than the level of any pending
+     * log.
+     */
+    DROP_LOWEST = 1,
+
+    /**
+     * Pending logs are flushed before a new one is added: the add waits for
+     * the flush instead of dropping pending logs, but it doesn't wait until
+     * the space is freed otherwise. A new log is dropped if the buffer still
+     * exceeds its limits after the flush (e.g. if sync failed).
+     */
+    BLOCK = 2,
+  }
+
+  /**
+   * Returns estimated size of the log in bytes (the UTF-8 length of its
+   * serialized JSON representation).
+   */
+  const sizeOf = (log: Log): number =>
+    bytes.Buffer.byteLength(JSON.stringify(log), "utf8");
+
   /**
    * Logs buffer class.
    */
@@ -39,26 +81,94 @@ export namespace logger {
     private [_errors]: Set<Log> = new Set();
 
     /**
-     * Sync debouncer.
+     * Sync debouncer. Releases the scheduled flush.
      */
-    private [_debouncer]: debounce<() => Promise<void>> = debounce(
+    private [_debouncer]: debounce<() => void> = debounce(
       this[_timeout],
-      async () => {
-        const logs: Set<Log> =
-          this[_errors].size === 0
-            ? this[_buffer]
-            : new Set([...this[_errors], ...this[_buffer]]);
-        this[_buffer] = new Set();
-        this[_errors] = new Set();
-        try {
-          await this[sync](logs);
-        } catch (error) {
-          this[_errors] = logs;
-          throw error;
+      () => {
+        const release = this[_release];
+        this[_release] = null;
+        if (release) {
+          release();
         }
       },
     );
 
+    /**
+     * Flush scheduled by the debouncer, `null` if there is no one.
+     */
+    private [_scheduled]: null | Promise<void> = null;
+
+    /**
+     * Releases the scheduled flush.
+     */
+    private [_release]: null | (() => void) = null;
+
+    /**
+     * Number of the dropped logs.
+     */
+    private [_dropped] = 0;
+
+    /**
+     * Estimated size of the pending logs in bytes. Tracked only if
+     * {@link Buffer.maxBytes} limit is set.
+     */
+    private [_bytes] = 0;
+
+    /**
+     * Maximum estimated size of the pending logs in bytes.
+     */
+    private [_maxBytes] = 0;
+
+    /**
+     * Queue of the adds blocked by the flush, `null` if there is no one.
+     */
+    private [_blocked]: null | Promise<boolean> = null;
+
+    /**
+     * Maximum number of the pending logs, 0 for unlimited.
+     */
+    public maxEntries = 0;
+
+    /**
+     * Behavior of the buffer when a new log exceeds its limits.
+     */
+    public policy: DropPolicy = DropPolicy.DROP_OLDEST;
+
+    /**
+     * Set maximum estimated size of the pending logs in bytes, 0 for
+     * unlimited.
+     * @param bytes Size in bytes.
+     */
+    public set maxBytes(bytes: number) {
+      this[_maxBytes] = bytes;
+      this[_bytes] =
+        bytes > 0
+          ? this.pending().reduce((sum, log) => sum + sizeOf(log), 0)
+          : 0;
+    }
+
+    /**
+     * Return maximum estimated size of the pending logs in bytes.
+     */
+    public get maxBytes(): number {
+      return this[_maxBytes];
+    }
+
+    /**
+     * Number of the logs dropped because of the buffer limits.
+     */
+    public get dropped(): number {
+      return this[_dropped];
+    }
+
+    /**
+     * Number of the pending (not synced yet) logs.
+     */
+    public get size(): number {
+      return this[_errors].size + this[_buffer].size;
+    }
+
     /**
      * Set sync debouncer timeout.
      * @param timeout Timeout in ms.
@@ -75,60 +185,242 @@ export namespace logger {
     }
 
     /**
-     * Default sync function.
+     * Logs sinks.
+     */
+    private [_sinks]: Set<Sink>;
+
+    /**
+     * Sinks failures counters.
+     */
+    private [_failures]: Map<Sink, number> = new Map();
+
+    /**
+     * Attached sinks array.
+     */
+    public get sinks(): Array<Sink> {
+      return [...this[_sinks]];
+    }
+
+    /**
+     * Class constructor.
+     * @param sinks Initial sinks ({@link logs.ConsoleSink} by default).
+     */
+    public constructor(sinks: Array<Sink> = [new ConsoleSink()]) {
+      this[_sinks] = new Set(sinks);
+    }
+
+    /**
+     * Attaches sink to the buffer. Returns false if sink is already attached,
+     * true otherwise.
+     * @param sink Sink to attach.
+     */
+    public addSink(sink: Sink): boolean {
+      if (this[_sinks].has(sink)) {
+        return false;
+      }
+      this[_sinks].add(sink);
+      return true;
+    }
+
+    /**
+     * Detaches sink from the buffer. Returns false if sink is not attached,
+     * true otherwise.
+     * @param sink Sink to detach.
+     */
+    public removeSink(sink: Sink): boolean {
+      this[_failures].delete(sink);
+      return this[_sinks].delete(sink);
+    }
+
+    /**
+     * Returns number of the failed writes for a given sink.
+     * @param sink Attached sink.
+     */
+    public failures(sink: Sink): number {
+      return this[_failures].get(sink) || 0;
+    }
+
+    /**
+     * Default sync function. Fans out logs enabled for their loggers to the
+     * attached sinks according to the sinks level thresholds. Sink failure is
+     * counted and reported, but affects neither other sinks nor the buffer.
      */
     protected async [sync](logs: Set<Log>): Promise<void> {
-      return new Promise((resolve) => {
-        logs.forEach((log: Log) => {
-          if (log.logger.level === Level.NONE) {
-            return;
-          } else {
-            switch (log.level) {
-              case Level.TRACE:
-                if (log.logger.level == Level.TRACE) {
-                  console.log(log);
-                }
-                break;
-              case Level.DEBUG:
-                if (log.logger.level <= Level.DEBUG) {
-                  console.log(log);
-                }
-                break;
-              case Level.INFO:
-                if (log.logger.level <= Level.INFO) {
-                  console.log(log);
-                }
-                break;
-              case Level.WARN:
-                if (log.logger.level <= Level.WARN) {
-                  console.log(log);
-                }
-                break;
-              case Level.ERROR:
-                if (log.logger.level <= Level.ERROR) {
-                  console.log(log);
-                }
-                break;
-              case Level.FATAL:
-                console.log(log);
-                break;
-            }
+      const enabled = [...logs].filter((log) => log.logger.enabled(log.level));
+      await Promise.all(
+        [...this[_sinks]].map(async (sink) => {
+          const accepted = enabled.filter((log) => sink.accepts(log));
+          if (accepted.length === 0) {
             return;
           }
+          try {
+            await sink.write(accepted);
+          } catch (error) {
+            this[_failures].set(sink, this.failures(sink) + 1);
+            console.error(`Logging sink failed: ${error as string}`);
+          }
+        }),
+      );
+    }
+
+    /**
+     * Syncs all pending logs immediately. Rejects (and keeps logs pending) if
+     * sync fails.
+     */
+    public async flush(): Promise<void> {
+      if (this.size === 0) {
+        return;
+      }
+      const logs: Set<Log> =
+        this[_errors].size === 0
+          ? this[_buffer]
+          : new Set([...this[_errors], ...this[_buffer]]);
+      this[_buffer] = new Set();
+      this[_errors] = new Set();
+      this[_bytes] = 0;
+      try {
+        await this[sync](logs);
+      } catch (error) {
+        this[_errors] = new Set([...logs, ...this[_errors]]);
+        this.maxBytes = this[_maxBytes];
+        throw error;
+      }
+    }
+
+    /**
+     * Returns pending logs from the oldest to the newest.
+     */
+    private pending(): Array<Log> {
+      return [...this[_errors], ...this[_buffer]];
+    }
+
+    /**
+     * Whether adding a log of a given size exceeds the buffer limits.
+     * @param size Log size in bytes.
+     */
+    private exceeds(size: number): boolean {
+      return (
+        this.size > 0 &&
+        ((this.maxEntries > 0 && this.size + 1 > this.maxEntries) ||
+          (this[_maxBytes] > 0 && this[_bytes] + size > this[_maxBytes]))
+      );
+    }
+
+    /**
+     * Removes pending log.
+     * @param log Log to remove.
+     */
+    private drop(log: Log): void {
+      if (this[_maxBytes] > 0) {
+        this[_bytes] -= sizeOf(log);
+      }
+      if (!this[_errors].delete(log)) {
+        this[_buffer].delete(log);
+      }
+      this[_dropped]++;
+    }
+
+    /**
+     * Frees space for a new log according to the drop policy. Returns false
+     * if the new log should be dropped instead.
+     * @param log New log.
+     * @param size New log size in bytes.
+     */
+    private evict(log: Log, size: number): boolean {
+      if (this.policy === DropPolicy.BLOCK) {
+        return !this.exceeds(size);
+      }
+      while (this.exceeds(size)) {
+        const pending = this.pending();
+        let victim = pending[0];
+        if (this.policy === DropPolicy.DROP_LOWEST) {
+          victim = pending.reduce((min, item) =>
+            item.level < min.level ? item : min,
+          );
+          if (log.level < victim.level) {
+            return false;
+          }
+        }
+        this.drop(victim);
+      }
+      return true;
+    }
+
+    /**
+     * Puts log into the buffer according to the drop policy. Returns false if
+     * log was dropped.
+     * @param log Log to put.
+     * @param size Log size in bytes.
+     */
+    private put(log: Log, size: number): boolean {
+      if (!this.evict(log, size)) {
+        this[_dropped]++;
+        return false;
+      }
+      this[_bytes] += size;
+      this[_buffer].add(log);
+      return true;
+    }
+
+    /**
+     * Returns flush scheduled by the debouncer, which all the logs added
+     * within the debouncer timeout wait for.
+     */
+    private schedule(): Promise<void> {
+      let scheduled = this[_scheduled];
+      if (!scheduled) {
+        scheduled = new Promise<void>((resolve) => {
+          this[_release] = resolve;
+        }).then(() => {
+          this[_scheduled] = null;
+          return this.flush();
         });
-        resolve();
-      });
+        this[_scheduled] = scheduled;
+      }
+      this[_debouncer]();
+      return scheduled;
     }
 
     /**
-     * Adds log to the buffer.
+     * Adds log to the buffer. Resolves to false if log was dropped because of
+     * the buffer limits or sync failed. Blocked adds (see
+     * {@link DropPolicy.BLOCK}) are queued, so the logs added in the meantime
+     * are buffered after them.
      * @param log Log to add.
      */
     public async add(log: Log): Promise<boolean> {
       canUpdate = false;
-      this[_buffer].add(log);
+      const size = this[_maxBytes] > 0 ? sizeOf(log) : 0;
+      let added: boolean;
+      if (
+        this.policy === DropPolicy.BLOCK &&
+        (this[_blocked] || this.exceeds(size))
+      ) {
+        const blocked = (this[_blocked] || Promise.resolve(true)).then(
+          async () => {
+            if (this.exceeds(size)) {
+              try {
+                await this.flush();
+              } catch (error) {
+                console.error(`Logging sync failed: ${error as string}`);
+              }
+            }
+            return this.put(log, size);
+          },
+        );
+        this[_blocked] = blocked;
+        added = await blocked;
+        if (this[_blocked] === blocked) {
+          this[_blocked] = null;
+        }
+      } else {
+        added = this.put(log, size);
+      }
+      if (!added) {
+        return false;
+      }
       try {
-        await this[_debouncer]();
+        await this.schedule();
       } catch (error) {
         console.error(`Logging sync failed: ${error as string}`);
         return false;
@@ -155,4 +447,65 @@ export namespace logger {
     }
     return false;
   }
+
+  /**
+   * Attaches sink to the current logs buffer.
+   * @param sink Sink to attach.
+   */
+  export function addSink(sink: Sink): boolean {
+    return buffer.addSink(sink);
+  }
+
+  /**
+   * Detaches sink from the current logs buffer.
+   * @param sink Sink to detach.
+   */
+  export function removeSink(sink: Sink): boolean {
+    return buffer.removeSink(sink);
+  }
+
+  /**
+   * Syncs all pending logs of the current logs buffer immediately.
+   */
+  export function flush(): Promise<void> {
+    return buffer.flush();
+  }
+
+  /**
+   * Drains the current logs buffer when the process is about to exit: on the
+   * `beforeExit` event and on the given signals. After the signal logs are
+   * drained, handlers are removed and the signal is re-raised, so the default
+   * (or other handlers) behavior is preserved. Returns function which removes
+   * installed handlers.
+   * @param signals Signals to handle (`SIGINT` and `SIGTERM` by default).
+   */
+  export function drainOnExit(
+    signals: Array<NodeJS.Signals> = ["SIGINT", "SIGTERM"],
+  ): () => void {
+    const drain = () =>
+      buffer.flush().catch((error) => {
+        console.error(`Logging sync failed: ${error as string}`);
+      });
+    const onExit = () => {
+      void drain();
+    };
+    const handlers = signals.map((signal) => {
+      const handler = () => {
+        dispose();
+        void drain().then(() => process.kill(process.pid, signal));
+      };
+      return { signal, handler };
+    });
+    const dispose = () => {
+      process.removeListener("beforeExit", onExit);
+      handlers.forEach(({ signal, handler }) => {
+        process.removeListener(signal, handler);
+      });
+    };
+    process.on("beforeExit", onExit);
+    handlers.forEach(({ signal, handler }) => {
+      process.on(signal, handler);
+    });
+    return dispose;
+  }
 }
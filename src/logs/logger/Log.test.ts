@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Log wire format test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { errors } from "../../errors";
+import { logs } from "../index";
+import { message } from "../message";
+
+describe("Log wire format", () => {
+  const logger = new logs.Logger("wire", logs.Level.TRACE);
+  const date = new Date("2021-11-28T10:00:00.000Z");
+  const messages: Array<[logs.Type, logs.Level, message.Message]> = [
+    [logs.Type.undefined, logs.Level.DEBUG, undefined],
+    [logs.Type.object, logs.Level.DEBUG, null],
+    [logs.Type.boolean, logs.Level.DEBUG, true],
+    [logs.Type.number, logs.Level.DEBUG, 42],
+    [logs.Type.string, logs.Level.INFO, "string"],
+    [logs.Type.date, logs.Level.INFO, date],
+    [logs.Type.checkpoint, logs.Level.TRACE, logs.getCheckpoint("a", "b")],
+    [logs.Type.constructed, logs.Level.INFO, message.getConstructed()],
+    [logs.Type.changed, logs.Level.DEBUG, logs.getChanged("ns", "attr", date)],
+    [logs.Type.destructed, logs.Level.INFO, message.getDestructed()],
+    [logs.Type.inserted, logs.Level.INFO, message.getInserted("c")],
+    [logs.Type.inserted, logs.Level.INFO, message.getInserted("c", "b")],
+    [logs.Type.replaced, logs.Level.INFO, message.getReplaced("e", "t")],
+    [logs.Type.removed, logs.Level.INFO, message.getRemoved("c")],
+    [
+      logs.Type.called,
+      logs.Level.DEBUG,
+      logs.getCalled("n", "Map", "set", [undefined, null, 1, "s", date], true),
+    ],
+    [logs.Type.error, logs.Level.ERROR, logs.getError(1, "error")],
+  ];
+
+  test.each(messages)("%s log survives round trip", (type, level, msg) => {
+    const log = new logs.Log(logger, "thread", type, level, msg, "stack");
+    const json = JSON.stringify(log);
+    const restored = logs.parse(json);
+    expect(JSON.parse(json)).toEqual(log.toJSON());
+    expect(restored instanceof logs.Log).toBeTruthy();
+    expect(restored.logger.uid).toEqual(logger.uid);
+    expect(restored.timestamp).toEqual(log.timestamp);
+    expect(restored.thread).toEqual(log.thread);
+    expect(restored.level).toEqual(log.level);
+    expect(restored.type).toEqual(log.type);
+    expect(restored.stack).toEqual(log.stack);
+    expect(restored.message).toEqual(log.message);
+    if (msg !== null && typeof msg === "object") {
+      expect(
+        (restored.message as { constructor: unknown }).constructor,
+      ).toEqual(msg.constructor);
+    }
+  });
+
+  test("logger class name survives round trip", () => {
+    const named = new logs.Logger("named", logs.Level.TRACE, "Node");
+    const log = new logs.Log(named, null, logs.Type.number, logs.Level.INFO, 1);
+    expect(log.toJSON().name).toEqual("Node");
+    expect(logs.parse(JSON.stringify(log)).logger.name).toEqual("Node");
+    expect(logs.parse(JSON.stringify(log)).logger.uid).toEqual("named");
+    const unnamed = new logs.Log(logger, null, logs.Type.number, 0, 1);
+    expect("name" in unnamed.toJSON()).toBeFalsy();
+    expect(logs.parse(JSON.stringify(unnamed)).logger.name).toBeNull();
+  });
+
+  test("unsupported version throws", () => {
+    const json = {
+      ...new logs.Log(
+        logger,
+        null,
+        logs.Type.number,
+        logs.Level.INFO,
+        1,
+      ).toJSON(),
+      version: 0,
+    };
+    expect(() => logs.parse(json)).toThrow(
+      `[mln-${errors.Code.LOG_FORMAT}] ${errors.Description.LOG_FORMAT}`,
+    );
+  });
+
+  test("unknown level or type throws", () => {
+    const json = new logs.Log(
+      logger,
+      null,
+      logs.Type.number,
+      logs.Level.INFO,
+      1,
+    ).toJSON();
+    expect(() => logs.parse({ ...json, level: "VERBOSE" })).toThrow(
+      `[mln-${errors.Code.LOG_FORMAT}] ${errors.Description.LOG_FORMAT}`,
+    );
+    expect(() => logs.parse({ ...json, level: "toString" })).toThrow(
+      `[mln-${errors.Code.LOG_FORMAT}] ${errors.Description.LOG_FORMAT}`,
+    );
+    expect(() => logs.parse({ ...json, type: "unknown" as logs.Type })).toThrow(
+      `[mln-${errors.Code.LOG_FORMAT}] ${errors.Description.LOG_FORMAT}`,
+    );
+  });
+});
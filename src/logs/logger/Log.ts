@@ -5,6 +5,7 @@
  * @license Apache-2.0
  */
 
+import { errors } from "../../errors";
 import { symbolsNS } from "../../symbols";
 import { level } from "../level";
 import { message } from "../message";
@@ -21,6 +22,7 @@ export namespace logger {
   import Removed = message.Removed;
   import Called = message.Called;
   import ErrorLog = message.ErrorLog;
+  import MessageJSON = message.MessageJSON;
   import Logger = lgr.Logger;
   import _logger = symbolsNS._logger;
   import _timestamp = symbolsNS._timestamp;
@@ -29,6 +31,63 @@ export namespace logger {
   import _message = symbolsNS._message;
   import _level = symbolsNS._level;
   import _stack = symbolsNS._stack;
+  import _parent = symbolsNS._parent;
+  import _correlation = symbolsNS._correlation;
+
+  /**
+   * Current version of the log wire format.
+   */
+  export const VERSION = 1;
+
+  /**
+   * Wire representation of the {@link Log} object (version 1). Used by the
+   * `JSON.stringify(log)` and could be converted back to the {@link Log} object
+   * with the {@link Log.fromJSON | `Log.fromJSON`}.
+   *
+   * - `version` - wire format version, equal to {@link VERSION}.
+   * - `timestamp` - log instantiation moment as an ISO string.
+   * - `thread` - log thread UUID or `null`.
+   * - `parent` - parent thread UUID of the log thread or `null`.
+   * - `correlation` - external correlation identifiers of the log thread or
+   * `null`.
+   * - `level` - log {@link Level} name (`"TRACE"`, `"DEBUG"`, ...).
+   * - `type` - log message {@link message.Type | `Type`}.
+   * - `logger` - UUID of the logger which populate the log.
+   * - `name` - optional class name of the logger owner.
+   * - `message` - wire representation of the message, defined by the `type`:
+   * message classes fields for the structured types and
+   * {@link message.ValueJSON | `ValueJSON`} for the primitive ones.
+   * - `stack` - log stack or `null`.
+   *
+   * @example
+   * ```json
+   * {
+   *   "version": 1,
+   *   "timestamp": "2021-11-28T10:00:00.000Z",
+   *   "thread": "5f1d5a0c-2b8e-5d8b-9c1f-0f3a3bb5c6f1",
+   *   "parent": null,
+   *   "correlation": { "request": "42" },
+   *   "level": "INFO",
+   *   "type": "inserted",
+   *   "logger": "8a2f6e1d-4c3b-5a29-8e7f-6d5c4b3a2910",
+   *   "message": { "child": "1b2c3d4e-...", "before": null },
+   *   "stack": null
+   * }
+   * ```
+   */
+  export interface LogJSON {
+    version: number;
+    timestamp: string;
+    thread: null | string;
+    parent: null | string;
+    correlation: null | { [key: string]: string };
+    level: string;
+    type: Type;
+    logger: string;
+    name?: string;
+    message: MessageJSON;
+    stack: null | string;
+  }
 
   /**
    * Log object.
@@ -37,14 +96,18 @@ export namespace logger {
     private [_logger]: Logger;
     private [_timestamp]: Date = new Date();
     private [_thread]: null | string;
+    private [_parent]: null | string;
+    private [_correlation]: null | { [key: string]: string };
     private [_level]: Level;
     private [_type]: Type;
     private [_stack]: null | string;
     private [_message]:
+      | null
       | undefined
       | boolean
       | number
       | string
+      | Date
       | Checkpoint
       | Constructed
       | Changed
@@ -76,6 +139,22 @@ export namespace logger {
       return this[_thread];
     }
 
+    /**
+     * Parent thread UUID of the log thread or `null` if log thread is not
+     * nested.
+     */
+    public get parent(): null | string {
+      return this[_parent];
+    }
+
+    /**
+     * External correlation identifiers of the log thread or `null` if there
+     * is no one.
+     */
+    public get correlation(): null | { [key: string]: string } {
+      return this[_correlation];
+    }
+
     /**
      * Log level.
      */
@@ -101,6 +180,7 @@ export namespace logger {
      * Log
      */
     public get message():
+      | null
       | undefined
       | boolean
       | number
@@ -124,6 +204,9 @@ export namespace logger {
      * @param type Log type.
      * @param level Log level.
      * @param message Log
+     * @param stack Log stack.
+     * @param parent Parent thread uid.
+     * @param correlation Thread correlation identifiers.
      */
     public constructor(
       logger: Logger,
@@ -131,10 +214,12 @@ export namespace logger {
       type: Type,
       level: Level,
       message:
+        | null
         | undefined
         | boolean
         | number
         | string
+        | Date
         | Checkpoint
         | Constructed
         | Changed
@@ -145,6 +230,8 @@ export namespace logger {
         | Called
         | ErrorLog,
       stack: null | string = null,
+      parent: null | string = null,
+      correlation: null | { [key: string]: string } = null,
     ) {
       this[_logger] = logger;
       this[_thread] = thread;
@@ -152,6 +239,63 @@ export namespace logger {
       this[_level] = level;
       this[_message] = message;
       this[_stack] = stack;
+      this[_parent] = parent;
+      this[_correlation] = correlation;
+    }
+
+    /**
+     * Returns wire representation of the log.
+     */
+    public toJSON(): LogJSON {
+      const json: LogJSON = {
+        version: VERSION,
+        timestamp: this[_timestamp].toISOString(),
+        thread: this[_thread],
+        parent: this[_parent],
+        correlation: this[_correlation],
+        level: Level[this[_level]],
+        type: this[_type],
+        logger: this[_logger].uid,
+        message: message.serialize(this[_message]),
+        stack: this[_stack],
+      };
+      if (this[_logger].name !== null) {
+        json.name = this[_logger].name as string;
+      }
+      return json;
+    }
+
+    /**
+     * Returns log object from a given wire representation. Throws
+     * {@link errors.Code.LOG_FORMAT} error if format version is not supported
+     * or if the log level or the message type is unknown.
+     *
+     * @param json Wire representation.
+     * @param logger Logger object to which restored log will refer.
+     */
+    public static fromJSON(json: LogJSON, logger: Logger): Log {
+      if (
+        json.version !== VERSION ||
+        typeof Level[json.level as keyof typeof Level] !== "number" ||
+        !Object.values<string>(Type).includes(json.type)
+      ) {
+        throw new errors.Error(
+          errors.Code.LOG_FORMAT,
+          errors.Description.LOG_FORMAT,
+        );
+      }
+      const log = new Log(
+        logger,
+        json.thread,
+        json.type,
+        Level[json.level as keyof typeof Level],
+        message.deserialize(json.type, json.message),
+        json.stack,
+        json.parent,
+        json.correlation,
+      );
+      log[_timestamp] = new Date(json.timestamp);
+      return log;
     }
   }
 }
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Logger class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logs } from "../index";
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+describe("Logger level pre-filtering", () => {
+  let add: jest.SpyInstance<Promise<boolean>, [log: logs.Log]>;
+  let logger: logs.Logger;
+
+  beforeAll(() => {
+    const buffer = new TestBuffer();
+    add = jest
+      .spyOn(buffer, "add")
+      .mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+    logger = new logs.Logger("logger", logs.Level.INFO);
+  });
+
+  test("enabled levels are calculated from the logger level", () => {
+    expect(logger.enabled(logs.Level.TRACE)).toBeFalsy();
+    expect(logger.enabled(logs.Level.DEBUG)).toBeFalsy();
+    expect(logger.enabled(logs.Level.INFO)).toBeTruthy();
+    expect(logger.enabled(logs.Level.FATAL)).toBeTruthy();
+  });
+
+  test("disabled level neither evaluates thunk nor adds log", () => {
+    const thunk = jest.fn(() => logs.getChanged("ns", "attr", 1));
+    const stack = jest.spyOn(logs, "getStack");
+    logger.debug(thunk);
+    logger.trace(() => logs.getCheckpoint("name", "value"));
+    expect(thunk).not.toHaveBeenCalled();
+    expect(stack).not.toHaveBeenCalled();
+    expect(add).not.toHaveBeenCalled();
+    stack.mockRestore();
+  });
+
+  test("enabled level evaluates thunk", () => {
+    logger.info(() => "message");
+    expect(add).toHaveBeenCalledTimes(1);
+    const log = add.mock.calls[0][0];
+    expect(log.type).toEqual(logs.Type.string);
+    expect(log.message).toEqual("message");
+  });
+});
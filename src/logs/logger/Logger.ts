@@ -27,9 +27,11 @@ export namespace logger {
   import Removed = msg.Removed;
   import Called = msg.Called;
   import ErrorLog = msg.ErrorLog;
+  import Message = msg.Message;
   import Log = ns0.Log;
   import _level = symbolsNS._level;
   import _uid = symbolsNS._uid;
+  import _name = symbolsNS._name;
 
   /**
    * Core logger class. Provides the basic implementation for the logger object.
@@ -37,10 +39,15 @@ export namespace logger {
    * data and could be used as a unified way to log app/process data. You may
    * extend this class, replace the default output logic and replace the default
    * implementation with the {@link setLogger} function.
+   *
+   * Logging methods check the level before any message processing. A function
+   * passed as a message is used as a thunk and called only if the level is
+   * {@link Logger.enabled | enabled}, so disabled logs cost nearly nothing.
    */
   export class Logger {
     private [_uid]: string;
     private [_level]: Level;
+    private [_name]: null | string;
     private buffer: ns1.Buffer = ns1.buffer;
 
     /**
@@ -50,6 +57,13 @@ export namespace logger {
       return this[_uid];
     }
 
+    /**
+     * Class name of the logger owner or `null` if it's unknown.
+     */
+    get name(): null | string {
+      return this[_name];
+    }
+
     /**
      * Logging level.
      * @param level Logging level.
@@ -74,44 +88,81 @@ export namespace logger {
      * Class constructor.
      * @param uid Unique identifier.
      * @param level Initial logging level ({@link Level.NONE} by default).
+     * @param name Class name of the logger owner.
      */
-    constructor(uid: string, level = Level.NONE) {
+    constructor(uid: string, level = Level.NONE, name: null | string = null) {
       this[_uid] = uid;
       this[_level] = level;
+      this[_name] = name;
+    }
+
+    /**
+     * Returns true if logs of a given level are outputted by the logger, false
+     * otherwise. Logs are disabled if the logger {@link level} is
+     * {@link Level.NONE}. Otherwise logs of the level greater or equal to the
+     * logger one and {@link Level.FATAL} logs are enabled.
+     *
+     * @param level Log level to check.
+     */
+    public enabled(level: Level): boolean {
+      const threshold = this.level;
+      if (threshold === Level.NONE) {
+        return false;
+      }
+      return level === Level.FATAL || level >= threshold;
+    }
+
+    /**
+     * Adds log to the buffer in the current thread.
+     * @param type Log type.
+     * @param level Log level.
+     * @param message Log message.
+     * @param stack Log stack.
+     */
+    private add(
+      type: Type,
+      level: Level,
+      message: Message,
+      stack: null | string = null,
+    ): void {
+      void this.buffer.add(
+        new Log(
+          this,
+          thread.uid(),
+          type,
+          level,
+          message,
+          stack,
+          thread.parent(),
+          thread.ids(),
+        ),
+      );
     }
 
     /**
      * Outputs a message at the "trace" log level. Returns
      * true if message was outputted, false otherwise.
      *
-     * @param message Message to trace.
+     * @param message Message to trace or a thunk returning it.
      */
     public trace(message: any): void {
+      if (!this.enabled(Level.TRACE)) {
+        return;
+      }
+      if (typeof message === "function") {
+        message = (message as () => unknown)();
+      }
       if (message instanceof Checkpoint) {
-        void this.buffer.add(
-          new Log(
-            this,
-            thread.uid(),
-            Type.checkpoint,
-            Level.TRACE,
-            message,
-            helpers.getStack("Checkpoint"),
-          ),
+        this.add(
+          Type.checkpoint,
+          Level.TRACE,
+          message,
+          helpers.getStack("Checkpoint"),
         );
       } else {
         const msg = helpers.parseMsg(message);
         const key = Object.keys(msg)[0] as Type;
-        const val = msg[key];
-        void this.buffer.add(
-          new Log(
-            this,
-            thread.uid(),
-            key,
-            Level.TRACE,
-            val,
-            helpers.getStack("Stack"),
-          ),
-        );
+        this.add(key, Level.TRACE, msg[key], helpers.getStack("Stack"));
       }
     }
 
@@ -119,24 +170,23 @@ export namespace logger {
      * Outputs a message at the "debug" log level. Returns
      * true if message was outputted, false otherwise.
      *
-     * @param message Message to debug.
+     * @param message Message to debug or a thunk returning it.
      */
     public debug(message: any): void {
+      if (!this.enabled(Level.DEBUG)) {
+        return;
+      }
+      if (typeof message === "function") {
+        message = (message as () => unknown)();
+      }
       if (message instanceof Changed) {
-        void this.buffer.add(
-          new Log(this, thread.uid(), Type.changed, Level.DEBUG, message),
-        );
+        this.add(Type.changed, Level.DEBUG, message);
       } else if (message instanceof Called) {
-        void this.buffer.add(
-          new Log(this, thread.uid(), Type.called, Level.DEBUG, message),
-        );
+        this.add(Type.called, Level.DEBUG, message);
       } else {
         const msg = helpers.parseMsg(message);
         const key = Object.keys(msg)[0] as Type;
-        const val = msg[Object.keys(msg)[0]];
-        void this.buffer.add(
-          new Log(this, thread.uid(), key, Level.DEBUG, val),
-        );
+        this.add(key, Level.DEBUG, msg[key]);
       }
     }
 
@@ -144,34 +194,29 @@ export namespace logger {
      * Outputs a message at the "info" log level. Returns
      * true if message was outputted, false otherwise.
      *
-     * @param message Message to info.
+     * @param message Message to info or a thunk returning it.
      */
     public info(message: any): void {
+      if (!this.enabled(Level.INFO)) {
+        return;
+      }
+      if (typeof message === "function") {
+        message = (message as () => unknown)();
+      }
       if (message instanceof Constructed) {
-        void this.buffer.add(
-          new Log(this, thread.uid(), Type.constructed, Level.INFO, message),
-        );
+        this.add(Type.constructed, Level.INFO, message);
       } else if (message instanceof Destructed) {
-        void this.buffer.add(
-          new Log(this, thread.uid(), Type.destructed, Level.INFO, message),
-        );
+        this.add(Type.destructed, Level.INFO, message);
       } else if (message instanceof Inserted) {
-        void this.buffer.add(
-          new Log(this, thread.uid(), Type.inserted, Level.INFO, message),
-        );
+        this.add(Type.inserted, Level.INFO, message);
       } else if (message instanceof Replaced) {
-        void this.buffer.add(
-          new Log(this, thread.uid(), Type.replaced, Level.INFO, message),
-        );
+        this.add(Type.replaced, Level.INFO, message);
       } else if (message instanceof Removed) {
-        void this.buffer.add(
-          new Log(this, thread.uid(), Type.removed, Level.INFO, message),
-        );
+        this.add(Type.removed, Level.INFO, message);
       } else {
         const msg = helpers.parseMsg(message);
         const key = Object.keys(msg)[0] as Type;
-        const val = msg[Object.keys(msg)[0]];
-        void this.buffer.add(new Log(this, thread.uid(), key, Level.INFO, val));
+        this.add(key, Level.INFO, msg[key]);
       }
     }
 
@@ -179,47 +224,39 @@ export namespace logger {
      * Outputs a message at the "warn" log level. Returns
      * true if message was outputted, false otherwise.
      *
-     * @param message Message to output.
+     * @param message Message to output or a thunk returning it.
      */
     public warn(message: any): void {
+      if (!this.enabled(Level.WARN)) {
+        return;
+      }
+      if (typeof message === "function") {
+        message = (message as () => unknown)();
+      }
       const msg = helpers.parseMsg(message);
       const key = Object.keys(msg)[0] as Type;
-      const val = msg[Object.keys(msg)[0]];
-      void this.buffer.add(new Log(this, thread.uid(), key, Level.WARN, val));
+      this.add(key, Level.WARN, msg[key]);
     }
 
     /**
      * Outputs a message at the "error" log level. Returns
      * true if message was outputted, false otherwise.
      *
-     * @param message Error
+     * @param message Error or a thunk returning it.
      */
     public error(message: any): void {
+      if (!this.enabled(Level.ERROR)) {
+        return;
+      }
+      if (typeof message === "function") {
+        message = (message as () => unknown)();
+      }
       if (message instanceof ErrorLog) {
-        void this.buffer.add(
-          new Log(
-            this,
-            thread.uid(),
-            Type.error,
-            Level.ERROR,
-            message,
-            helpers.getStack("Error"),
-          ),
-        );
+        this.add(Type.error, Level.ERROR, message, helpers.getStack("Error"));
       } else {
         const msg = helpers.parseMsg(message);
         const key = Object.keys(msg)[0] as Type;
-        const val = msg[Object.keys(msg)[0]];
-        void this.buffer.add(
-          new Log(
-            this,
-            thread.uid(),
-            key,
-            Level.ERROR,
-            val,
-            helpers.getStack("Error"),
-          ),
-        );
+        this.add(key, Level.ERROR, msg[key], helpers.getStack("Error"));
       }
     }
 
@@ -227,34 +264,21 @@ export namespace logger {
      * Outputs a message at the "fatal" log level. Returns
      * true if message was outputted, false otherwise.
      *
-     * @param message Error
+     * @param message Error or a thunk returning it.
      */
     public fatal(message: any): void {
+      if (!this.enabled(Level.FATAL)) {
+        return;
+      }
+      if (typeof message === "function") {
+        message = (message as () => unknown)();
+      }
       if (message instanceof ErrorLog) {
-        void this.buffer.add(
-          new Log(
-            this,
-            thread.uid(),
-            Type.error,
-            Level.FATAL,
-            message,
-            helpers.getStack("Fatal"),
-          ),
-        );
+        this.add(Type.error, Level.FATAL, message, helpers.getStack("Fatal"));
       } else {
         const msg = helpers.parseMsg(message);
         const key = Object.keys(msg)[0] as Type;
-        const val = msg[Object.keys(msg)[0]];
-        void this.buffer.add(
-          new Log(
-            this,
-            thread.uid(),
-            key,
-            Level.FATAL,
-            val,
-            helpers.getStack("Fatal"),
-          ),
-        );
+        this.add(key, Level.FATAL, msg[key], helpers.getStack("Fatal"));
       }
     }
   }
@@ -10,9 +10,18 @@
 import { logger as ns1 } from "./Log";
 import { logger as ns0 } from "./Logger";
 import { logger as ns2 } from "./Buffer";
+import { logger as ns3 } from "./parse";
 export namespace logger {
   export import Log = ns1.Log;
+  export import LogJSON = ns1.LogJSON;
+  export import VERSION = ns1.VERSION;
   export import Logger = ns0.Logger;
   export import Buffer = ns2.Buffer;
+  export import DropPolicy = ns2.DropPolicy;
   export import setBuffer = ns2.setBuffer;
+  export import addSink = ns2.addSink;
+  export import removeSink = ns2.removeSink;
+  export import flush = ns2.flush;
+  export import drainOnExit = ns2.drainOnExit;
+  export import parse = ns3.parse;
 }
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview Declaration of the parse function.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logger as ns0 } from "./Log";
+import { logger as ns1 } from "./Logger";
+export namespace logger {
+  import Log = ns0.Log;
+  import LogJSON = ns0.LogJSON;
+  import Logger = ns1.Logger;
+
+  /**
+   * Returns log object from a given wire representation or its JSON string.
+   * Restored log refers to a new {@link Logger} object with the original
+   * logger uid and class name.
+   *
+   * @param json Wire representation or JSON string.
+   */
+  export function parse(json: LogJSON | string): Log {
+    const data: LogJSON =
+      typeof json === "string" ? (JSON.parse(json) as LogJSON) : json;
+    return Log.fromJSON(
+      data,
+      new Logger(data.logger, undefined, data.name || null),
+    );
+  }
+}
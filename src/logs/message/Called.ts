@@ -5,7 +5,23 @@
  * @license Apache-2.0
  */
 
+import { message as ns } from "./Value";
 export namespace message {
+  import ValueJSON = ns.ValueJSON;
+  import encode = ns.encode;
+  import decode = ns.decode;
+
+  /**
+   * Wire representation of the {@link Called} message.
+   */
+  export interface CalledJSON {
+    name: string;
+    type: string;
+    method: string;
+    args: Array<ValueJSON>;
+    global: boolean;
+  }
+
   /**
    * Object's method called log message type.
    */
@@ -13,13 +29,13 @@ export namespace message {
     name: string;
     type: string;
     method: string;
-    args: Array<undefined | boolean | number | string | Date>;
+    args: Array<null | undefined | boolean | number | string | Date>;
     global: boolean;
     constructor(
       name: string,
       type: string,
       method: string,
-      args: Array<undefined | boolean | number | string | Date>,
+      args: Array<null | undefined | boolean | number | string | Date>,
       global = false,
     ) {
       this.name = name;
@@ -28,5 +44,32 @@ export namespace message {
       this.args = args;
       this.global = global;
     }
+
+    /**
+     * Returns wire representation of the message.
+     */
+    toJSON(): CalledJSON {
+      return {
+        name: this.name,
+        type: this.type,
+        method: this.method,
+        args: this.args.map(encode),
+        global: this.global,
+      };
+    }
+
+    /**
+     * Returns message from a given wire representation.
+     * @param json Wire representation.
+     */
+    static fromJSON(json: CalledJSON): Called {
+      return new Called(
+        json.name,
+        json.type,
+        json.method,
+        json.args.map(decode),
+        json.global,
+      );
+    }
   }
 }
@@ -5,22 +5,55 @@
  * @license Apache-2.0
  */
 
+import { message as ns } from "./Value";
 export namespace message {
+  import ValueJSON = ns.ValueJSON;
+  import encode = ns.encode;
+  import decode = ns.decode;
+
+  /**
+   * Wire representation of the {@link Changed} message.
+   */
+  export interface ChangedJSON {
+    namespace: string;
+    attribute: string;
+    value: ValueJSON;
+  }
+
   /**
    * Monitorable object changed log message type.
    */
   export class Changed {
     namespace: string;
     attribute: string;
-    value: undefined | boolean | number | string | Date;
+    value: null | undefined | boolean | number | string | Date;
     constructor(
       namespace: string,
       attribute: string,
-      value: undefined | boolean | number | string | Date,
+      value: null | undefined | boolean | number | string | Date,
     ) {
       this.namespace = namespace;
       this.attribute = attribute;
       this.value = value;
     }
+
+    /**
+     * Returns wire representation of the message.
+     */
+    toJSON(): ChangedJSON {
+      return {
+        namespace: this.namespace,
+        attribute: this.attribute,
+        value: encode(this.value),
+      };
+    }
+
+    /**
+     * Returns message from a given wire representation.
+     * @param json Wire representation.
+     */
+    static fromJSON(json: ChangedJSON): Changed {
+      return new Changed(json.namespace, json.attribute, decode(json.value));
+    }
   }
 }
@@ -6,6 +6,14 @@
  */
 
 export namespace message {
+  /**
+   * Wire representation of the {@link Checkpoint} message.
+   */
+  export interface CheckpointJSON {
+    name: string;
+    value: string;
+  }
+
   /**
    * Checkpoint log message type.
    */
@@ -16,5 +24,20 @@ export namespace message {
       this.name = name;
       this.value = value;
     }
+
+    /**
+     * Returns wire representation of the message.
+     */
+    toJSON(): CheckpointJSON {
+      return { name: this.name, value: this.value };
+    }
+
+    /**
+     * Returns message from a given wire representation.
+     * @param json Wire representation.
+     */
+    static fromJSON(json: CheckpointJSON): Checkpoint {
+      return new Checkpoint(json.name, json.value);
+    }
   }
 }
@@ -6,8 +6,27 @@
  */
 
 export namespace message {
+  /**
+   * Wire representation of the {@link Constructed} message.
+   */
+  export type ConstructedJSON = Record<string, never>;
+
   /**
    * Monitorable object constructed log message type.
    */
-  export class Constructed {}
+  export class Constructed {
+    /**
+     * Returns wire representation of the message.
+     */
+    toJSON(): ConstructedJSON {
+      return {};
+    }
+
+    /**
+     * Returns message from a given wire representation.
+     */
+    static fromJSON(): Constructed {
+      return new Constructed();
+    }
+  }
 }
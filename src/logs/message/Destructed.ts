@@ -6,8 +6,27 @@
  */
 
 export namespace message {
+  /**
+   * Wire representation of the {@link Destructed} message.
+   */
+  export type DestructedJSON = Record<string, never>;
+
   /**
    * Destructible object destructed log message type.
    */
-  export class Destructed {}
+  export class Destructed {
+    /**
+     * Returns wire representation of the message.
+     */
+    toJSON(): DestructedJSON {
+      return {};
+    }
+
+    /**
+     * Returns message from a given wire representation.
+     */
+    static fromJSON(): Destructed {
+      return new Destructed();
+    }
+  }
 }
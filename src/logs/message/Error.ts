@@ -6,6 +6,14 @@
  */
 
 export namespace message {
+  /**
+   * Wire representation of the {@link ErrorLog} message.
+   */
+  export interface ErrorLogJSON {
+    code: number;
+    message: string;
+  }
+
   /**
    * Error log message type.
    */
@@ -16,5 +24,20 @@ export namespace message {
       this.code = code;
       this.message = message;
     }
+
+    /**
+     * Returns wire representation of the message.
+     */
+    toJSON(): ErrorLogJSON {
+      return { code: this.code, message: this.message };
+    }
+
+    /**
+     * Returns message from a given wire representation.
+     * @param json Wire representation.
+     */
+    static fromJSON(json: ErrorLogJSON): ErrorLog {
+      return new ErrorLog(json.code, json.message);
+    }
   }
 }
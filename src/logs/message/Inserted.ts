@@ -6,6 +6,14 @@
  */
 
 export namespace message {
+  /**
+   * Wire representation of the {@link Inserted} message.
+   */
+  export interface InsertedJSON {
+    child: string;
+    before: null | string;
+  }
+
   /**
    * Node object inserted log message type.
    */
@@ -16,5 +24,20 @@ export namespace message {
       this.child = child;
       this.before = before;
     }
+
+    /**
+     * Returns wire representation of the message.
+     */
+    toJSON(): InsertedJSON {
+      return { child: this.child, before: this.before || null };
+    }
+
+    /**
+     * Returns message from a given wire representation.
+     * @param json Wire representation.
+     */
+    static fromJSON(json: InsertedJSON): Inserted {
+      return new Inserted(json.child, json.before || undefined);
+    }
   }
 }
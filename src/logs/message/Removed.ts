@@ -6,6 +6,13 @@
  */
 
 export namespace message {
+  /**
+   * Wire representation of the {@link Removed} message.
+   */
+  export interface RemovedJSON {
+    child: string;
+  }
+
   /**
    * Node object removed log message type.
    */
@@ -14,5 +21,20 @@ export namespace message {
     constructor(child: string) {
       this.child = child;
     }
+
+    /**
+     * Returns wire representation of the message.
+     */
+    toJSON(): RemovedJSON {
+      return { child: this.child };
+    }
+
+    /**
+     * Returns message from a given wire representation.
+     * @param json Wire representation.
+     */
+    static fromJSON(json: RemovedJSON): Removed {
+      return new Removed(json.child);
+    }
   }
 }
@@ -6,6 +6,14 @@
  */
 
 export namespace message {
+  /**
+   * Wire representation of the {@link Replaced} message.
+   */
+  export interface ReplacedJSON {
+    existing: string;
+    to: string;
+  }
+
   /**
    * Node object replaced log message type.
    */
@@ -16,5 +24,20 @@ export namespace message {
       this.existing = existing;
       this.to = to;
     }
+
+    /**
+     * Returns wire representation of the message.
+     */
+    toJSON(): ReplacedJSON {
+      return { existing: this.existing, to: this.to };
+    }
+
+    /**
+     * Returns message from a given wire representation.
+     * @param json Wire representation.
+     */
+    static fromJSON(json: ReplacedJSON): Replaced {
+      return new Replaced(json.existing, json.to);
+    }
   }
 }
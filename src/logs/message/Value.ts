@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Declaration of the log message values wire format.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+export namespace message {
+  /**
+   * Primitive value of the log message.
+   */
+  export type Value = null | undefined | boolean | number | string | Date;
+
+  /**
+   * Wire representation of the {@link Value}. `undefined` is represented as
+   * an object with the `undefined` flag and `Date` as an object with the ISO
+   * string in the `date` field. Other values are represented as is.
+   */
+  export type ValueJSON =
+    | null
+    | boolean
+    | number
+    | string
+    | { undefined: true }
+    | { date: string };
+
+  /**
+   * Returns wire representation of a given value.
+   * @param value Value to encode.
+   */
+  export const encode = (value: Value): ValueJSON => {
+    if (value === undefined) {
+      return { undefined: true };
+    } else if (value instanceof Date) {
+      return { date: value.toISOString() };
+    } else {
+      return value;
+    }
+  };
+
+  /**
+   * Returns value from a given wire representation.
+   * @param json Wire representation to decode.
+   */
+  export const decode = (json: ValueJSON): Value => {
+    if (json === null || typeof json !== "object") {
+      return json;
+    } else if ("date" in json) {
+      return new Date(json.date);
+    } else {
+      return undefined;
+    }
+  };
+}
@@ -19,6 +19,7 @@ import { message as ns6 } from "./Replaced";
 import { message as ns7 } from "./Removed";
 import { message as ns8 } from "./Called";
 import { message as ns9 } from "./Error";
+import { message as ns10 } from "./Value";
 export namespace message {
   export import Type = ns0.Type;
   export import Checkpoint = ns1.Checkpoint;
@@ -30,6 +31,101 @@ export namespace message {
   export import Removed = ns7.Removed;
   export import Called = ns8.Called;
   export import ErrorLog = ns9.ErrorLog;
+  export import Value = ns10.Value;
+  export import ValueJSON = ns10.ValueJSON;
+  export import CheckpointJSON = ns1.CheckpointJSON;
+  export import ConstructedJSON = ns2.ConstructedJSON;
+  export import ChangedJSON = ns3.ChangedJSON;
+  export import DestructedJSON = ns4.DestructedJSON;
+  export import InsertedJSON = ns5.InsertedJSON;
+  export import ReplacedJSON = ns6.ReplacedJSON;
+  export import RemovedJSON = ns7.RemovedJSON;
+  export import CalledJSON = ns8.CalledJSON;
+  export import ErrorLogJSON = ns9.ErrorLogJSON;
+  export import encode = ns10.encode;
+  export import decode = ns10.decode;
+
+  /**
+   * Log message.
+   */
+  export type Message =
+    | Value
+    | Checkpoint
+    | Constructed
+    | Changed
+    | Destructed
+    | Inserted
+    | Replaced
+    | Removed
+    | Called
+    | ErrorLog;
+
+  /**
+   * Wire representation of the log message.
+   */
+  export type MessageJSON =
+    | ValueJSON
+    | CheckpointJSON
+    | ConstructedJSON
+    | ChangedJSON
+    | DestructedJSON
+    | InsertedJSON
+    | ReplacedJSON
+    | RemovedJSON
+    | CalledJSON
+    | ErrorLogJSON;
+
+  /**
+   * Returns wire representation of a given log message.
+   * @param msg Log message.
+   */
+  export const serialize = (msg: Message): MessageJSON => {
+    if (
+      msg instanceof Checkpoint ||
+      msg instanceof Constructed ||
+      msg instanceof Changed ||
+      msg instanceof Destructed ||
+      msg instanceof Inserted ||
+      msg instanceof Replaced ||
+      msg instanceof Removed ||
+      msg instanceof Called ||
+      msg instanceof ErrorLog
+    ) {
+      return msg.toJSON();
+    } else {
+      return encode(msg);
+    }
+  };
+
+  /**
+   * Returns log message of a given type from its wire representation.
+   * @param type Log message type.
+   * @param json Wire representation.
+   */
+  export const deserialize = (type: Type, json: MessageJSON): Message => {
+    switch (type) {
+      case Type.checkpoint:
+        return Checkpoint.fromJSON(json as CheckpointJSON);
+      case Type.constructed:
+        return Constructed.fromJSON();
+      case Type.changed:
+        return Changed.fromJSON(json as ChangedJSON);
+      case Type.destructed:
+        return Destructed.fromJSON();
+      case Type.inserted:
+        return Inserted.fromJSON(json as InsertedJSON);
+      case Type.replaced:
+        return Replaced.fromJSON(json as ReplacedJSON);
+      case Type.removed:
+        return Removed.fromJSON(json as RemovedJSON);
+      case Type.called:
+        return Called.fromJSON(json as CalledJSON);
+      case Type.error:
+        return ErrorLog.fromJSON(json as ErrorLogJSON);
+      default:
+        return decode(json as ValueJSON);
+    }
+  };
 
   /**
    * Returns Checkpoint log message object.
@@ -113,7 +209,7 @@ export namespace message {
     args: Array<unknown>,
     global = false,
   ): Called => {
-    const res: Array<undefined | boolean | number | string | Date> = [];
+    const res: Array<null | undefined | boolean | number | string | Date> = [];
     args.forEach((value) => {
       const msg = helpers.parseMsg(value);
       const val = msg[Object.keys(msg)[0]];
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Pool class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../../symbols";
+import { errors } from "../../errors";
+import { logs, logNS } from "../index";
+import { message } from "../message";
+import construct = symbolsNS.construct;
+import reset = symbolsNS.reset;
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+/**
+ * Pooled class to test.
+ */
+class Item extends logs.Monitorable<{ value: number }> {
+  // assigned in [construct], so it must not be redefined as a field
+  public declare value: number;
+  public declare resets: number;
+
+  /**
+   * @override
+   */
+  protected [construct](options?: { value: number }) {
+    super[construct](options);
+    this.value = options ? options.value : 0;
+  }
+
+  /**
+   * @override
+   */
+  protected [reset]() {
+    this.resets = (this.resets || 0) + 1;
+    super[reset]();
+  }
+}
+
+describe("Pool class", () => {
+  const set: Set<logs.Log> = new Set();
+  let pool: logs.Pool<Item, { value: number }>;
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      set.add(log);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+    pool = new logs.Pool({ factory: Item, capacity: 2 });
+  });
+
+  afterAll(() => {
+    pool.destructor();
+  });
+
+  test("destructed objects are recycled with fresh uid", () => {
+    const item = pool.acquire({ value: 1 });
+    const uid = item.uid;
+    const created = item.constructed;
+    expect(pool.misses).toEqual(1);
+    expect(pool.release(item)).toBeTruthy();
+    expect(item.destructed).toBeTruthy();
+    expect(pool.size).toEqual(1);
+
+    const recycled = pool.acquire({ value: 2 });
+    expect(recycled).toBe(item);
+    expect(pool.hits).toEqual(1);
+    expect(pool.size).toEqual(0);
+    expect(recycled.resets).toEqual(1);
+    expect(recycled.value).toEqual(2);
+    expect(recycled.destructed).toEqual(false);
+    expect(recycled.uid).not.toEqual(uid);
+    expect(recycled.logger.uid).toEqual(recycled.uid);
+    expect(recycled.constructed.getTime()).toBeGreaterThanOrEqual(
+      created.getTime(),
+    );
+    expect(logNS.undestructed.get(uid)).toBeUndefined();
+    expect(logNS.undestructed.get(recycled.uid)).toBe(recycled);
+    pool.release(recycled);
+  });
+
+  test("recycled object runs the construct thread again", () => {
+    const item = pool.acquire();
+    const constructed = [...set].filter(
+      (log) =>
+        log.logger.uid === item.uid && log.type === logs.Type.constructed,
+    );
+    expect(constructed.length).toEqual(1);
+    pool.release(item);
+  });
+
+  test("hits and misses are logged", () => {
+    const changed = [...set]
+      .filter(
+        (log) =>
+          log.logger.uid === pool.uid &&
+          log.type === logs.Type.changed &&
+          (log.message as message.Changed).namespace === "Pool",
+      )
+      .map((log) => {
+        const msg = log.message as message.Changed;
+        return `${msg.attribute}=${String(msg.value)}`;
+      });
+    expect(changed).toEqual(["misses=1", "hits=1", "hits=2"]);
+  });
+
+  test("pool capacity is respected", () => {
+    const items = [pool.acquire(), pool.acquire(), pool.acquire()];
+    expect(items.map((item) => pool.release(item))).toEqual([
+      true,
+      true,
+      false,
+    ]);
+    expect(items[2].destructed).toBeTruthy();
+    expect(pool.size).toEqual(2);
+  });
+
+  test("pool without factory throws", () => {
+    const code = `[mln-${errors.Code.POOL_FACTORY_MISSED}] ${errors.Description.POOL_FACTORY_MISSED}`;
+    expect(() => new logs.Pool()).toThrow(code);
+    expect(
+      () => new logs.Pool({} as logs.PoolOptions<Item, { value: number }>),
+    ).toThrow(code);
+  });
+
+  test("destructed pool throws", () => {
+    const code = `[mln-${errors.Code.DESTRUCTED_USE}] ${errors.Description.DESTRUCTED_USE}`;
+    const destructed = new logs.Pool({ factory: Item });
+    const item = new Item();
+    destructed.destructor();
+    expect(() => destructed.acquire()).toThrow(code);
+    expect(() => destructed.release(item)).toThrow(code);
+    expect(item.destructed).toBeFalsy();
+    expect(destructed.misses).toEqual(0);
+    item.destructor();
+  });
+
+  test("foreign object release throws", () => {
+    const foreign = new logs.Monitorable();
+    expect(() => pool.release(foreign as Item)).toThrow(
+      `[mln-${errors.Code.POOL_FOREIGN_OBJECT}] ${errors.Description.POOL_FOREIGN_OBJECT}`,
+    );
+    expect(foreign.destructed).toBeFalsy();
+    expect(pool.size).toBeLessThanOrEqual(2);
+    foreign.destructor();
+  });
+
+  test("only destructed object could be recycled", () => {
+    const item = new Item();
+    expect(() => item.recycle()).toThrow(
+      `[mln-${errors.Code.RECYCLE_CALL}] ${errors.Description.RECYCLE_CALL}`,
+    );
+    item.destructor();
+  });
+
+  test("super[reset] call is asserted", () => {
+    /**
+     * Class which doesn't call super[reset].
+     */
+    class WrongItem extends logs.Monitorable {
+      /**
+       * @override
+       */
+      protected [reset]() {
+        // super[reset]() is missed
+      }
+    }
+    const item = new WrongItem();
+    item.destructor();
+    expect(() => item.recycle()).toThrow(
+      `[mln-${errors.Code.RESET_IMPL}] ${errors.Description.RESET_IMPL}`,
+    );
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Declaration of the Pool class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { errors } from "../../errors";
+import { symbolsNS } from "../../symbols";
+import { logs } from "../Monitorable";
+import { message } from "../message";
+export namespace pool {
+  import Monitorable = logs.Monitorable;
+  import construct = symbolsNS.construct;
+  import destruct = symbolsNS.destruct;
+  import _free = symbolsNS._free;
+  import _hits = symbolsNS._hits;
+  import _misses = symbolsNS._misses;
+
+  /**
+   * Pool construction options (required):
+   *
+   * - `factory` - class of the pooled objects.
+   * - `capacity` - maximum number of the free objects (100 by default).
+   */
+  export interface PoolOptions<T extends Monitorable<O>, O = unknown> {
+    factory: new (options?: O) => T;
+    capacity?: number;
+  }
+
+  /**
+   * Opt-in pool of the `Monitorable`-derived objects. Released objects are
+   * destructed and kept in the pool, acquired ones are taken from the pool
+   * and {@link Monitorable.recycle | recycled} (so they get fresh uid and
+   * run the `construct thread` again) or instantiated if the pool is empty.
+   * Pool hits and misses are logged in the current thread. Throws
+   * `POOL_FACTORY_MISSED` error if the pool is constructed without the
+   * factory, `POOL_FOREIGN_OBJECT` error if the released object isn't an
+   * instance of the factory and `DESTRUCTED_USE` error if it's used after
+   * destruction.
+   *
+   * Only released objects return to the pool: objects destructed otherwise
+   * (e.g. children of a destructed node) are left to the garbage collector.
+   *
+   * @example
+   * ```typescript
+   * import { logs, Node } from "mdln";
+   *
+   * const nodes = new logs.Pool({ factory: Node, capacity: 1000 });
+   * const node = nodes.acquire();
+   * // ...
+   * nodes.release(node); // destructs the node and keeps it for reuse
+   * ```
+   */
+  export class Pool<T extends Monitorable<O>, O = unknown> extends Monitorable<
+    PoolOptions<T, O>
+  > {
+    // assigned in [construct], so they must not be redefined as fields
+    private declare factory: new (options?: O) => T;
+    private declare [_free]: Array<T>;
+    private declare [_hits]: number;
+    private declare [_misses]: number;
+
+    /**
+     * Maximum number of the free objects.
+     */
+    public declare capacity: number;
+
+    /**
+     * Number of the free objects.
+     */
+    get size(): number {
+      return this[_free].length;
+    }
+
+    /**
+     * Number of the acquisitions served by the recycled objects.
+     */
+    get hits(): number {
+      return this[_hits];
+    }
+
+    /**
+     * Number of the acquisitions served by the new objects.
+     */
+    get misses(): number {
+      return this[_misses];
+    }
+
+    /**
+     * @override
+     */
+    protected [construct](options?: PoolOptions<T, O>): void {
+      super[construct](options);
+      this.logger.trace(() => message.getCheckpoint("construct", "Pool"));
+      if (!options || typeof options.factory !== "function") {
+        this.logger.error(
+          message.getError(
+            errors.Code.POOL_FACTORY_MISSED,
+            errors.Description.POOL_FACTORY_MISSED,
+          ),
+        );
+        throw new errors.Error(
+          errors.Code.POOL_FACTORY_MISSED,
+          errors.Description.POOL_FACTORY_MISSED,
+        );
+      }
+      this.factory = options.factory;
+      this.capacity = options.capacity !== undefined ? options.capacity : 100;
+      this[_free] = [];
+      this[_hits] = 0;
+      this[_misses] = 0;
+    }
+
+    /**
+     * @override
+     */
+    protected [destruct](): void {
+      this.logger.trace(() => message.getCheckpoint("destruct", "Pool"));
+      this[_free] = [];
+      super[destruct]();
+    }
+
+    /**
+     * Returns recycled free object or the new one, if the pool is empty.
+     * @param options Construction options of the object.
+     */
+    acquire(options?: O): T {
+      logs.assertUndestructed(this, "acquire");
+      const obj = this[_free].pop();
+      if (obj) {
+        this[_hits]++;
+        this.logger.debug(() =>
+          message.getChanged("Pool", "hits", this[_hits]),
+        );
+        return obj.recycle(options);
+      }
+      this[_misses]++;
+      this.logger.debug(() =>
+        message.getChanged("Pool", "misses", this[_misses]),
+      );
+      return new this.factory(options);
+    }
+
+    /**
+     * Destructs a given object, if it isn't destructed yet, and keeps it for
+     * reuse. Returns false if the pool is full, so the object is left to the
+     * garbage collector.
+     * @param obj Object to release.
+     */
+    release(obj: T): boolean {
+      logs.assertUndestructed(this, "release");
+      if (!(obj instanceof this.factory)) {
+        this.logger.error(
+          message.getError(
+            errors.Code.POOL_FOREIGN_OBJECT,
+            errors.Description.POOL_FOREIGN_OBJECT,
+          ),
+        );
+        throw new errors.Error(
+          errors.Code.POOL_FOREIGN_OBJECT,
+          errors.Description.POOL_FOREIGN_OBJECT,
+        );
+      }
+      if (!obj.destructed) {
+        obj.destructor();
+      }
+      if (
+        this[_free].length >= this.capacity ||
+        this[_free].indexOf(obj) !== -1
+      ) {
+        return false;
+      }
+      this[_free].push(obj);
+      return true;
+    }
+  }
+}
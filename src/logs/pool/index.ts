@@ -0,0 +1,18 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the pool namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { pool as ns0 } from "./Pool";
+
+/**
+ * Objects pooling namespace.
+ */
+export namespace pool {
+  export import PoolOptions = ns0.PoolOptions;
+  export import Pool = ns0.Pool;
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Ref class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logs } from "../index";
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+describe("Ref class", () => {
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+  });
+
+  test("ref resolves to the undestructed object", () => {
+    const obj = new logs.Monitorable();
+    const ref = new logs.Ref(obj);
+    expect(ref.uid).toEqual(obj.uid);
+    expect(ref.deref()).toBe(obj);
+    expect(ref.alive).toBeTruthy();
+    obj.destructor();
+  });
+
+  test("ref resolves to null once the object is destructed", () => {
+    const obj = new logs.Monitorable();
+    const ref = new logs.Ref(obj);
+    obj.destructor();
+    expect(ref.deref()).toBeNull();
+    expect(ref.alive).toBeFalsy();
+  });
+
+  test("ref resolves to null once the object is recycled", () => {
+    const pool = new logs.Pool({ factory: logs.Monitorable });
+    const obj = pool.acquire();
+    const ref = new logs.Ref(obj);
+    pool.release(obj);
+    expect(pool.acquire()).toBe(obj);
+    expect(ref.deref()).toBeNull();
+    expect(new logs.Ref(obj).deref()).toBe(obj);
+    obj.destructor();
+    pool.destructor();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Declaration of the Ref class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logs } from "../Monitorable";
+export namespace ref {
+  import Monitorable = logs.Monitorable;
+
+  /**
+   * Weak handle of the `Monitorable` object, which could be held safely
+   * instead of the object itself. It doesn't prevent garbage collection of
+   * the object and resolves to `null` once the object is destructed
+   * (including the case when the object is recycled with the new uid).
+   *
+   * @example
+   * ```typescript
+   * import { logs, Node } from "mdln";
+   *
+   * const node = new Node();
+   * const ref = new logs.Ref(node);
+   * ref.deref()?.dispatch("change"); // dispatched
+   * node.destructor();
+   * ref.deref()?.dispatch("change"); // skipped
+   * ```
+   */
+  export class Ref<T extends Monitorable> {
+    /**
+     * Weak reference to the object.
+     */
+    private target: WeakRef<T>;
+
+    /**
+     * Uid of the referred object.
+     */
+    private id: string;
+
+    /**
+     * Class constructor.
+     * @param target Object to refer.
+     */
+    constructor(target: T) {
+      this.target = new WeakRef(target);
+      this.id = target.uid;
+    }
+
+    /**
+     * Uid of the referred object.
+     */
+    get uid(): string {
+      return this.id;
+    }
+
+    /**
+     * Whether the referred object is alive and not destructed.
+     */
+    get alive(): boolean {
+      return this.deref() !== null;
+    }
+
+    /**
+     * Returns referred object, or `null` if it's destructed, recycled or
+     * garbage-collected.
+     */
+    deref(): null | T {
+      const target = this.target.deref();
+      return target && !target.destructed && target.uid === this.id
+        ? target
+        : null;
+    }
+  }
+}
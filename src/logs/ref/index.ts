@@ -0,0 +1,17 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the ref namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { ref as ns0 } from "./Ref";
+
+/**
+ * Weak handles namespace.
+ */
+export namespace ref {
+  export import Ref = ns0.Ref;
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Live instances registry test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logs, logNS } from "../index";
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+/**
+ * Monitorable child class to test.
+ */
+class Registered extends logs.Monitorable {}
+
+describe("Live instances registry", () => {
+  let objects: Array<Registered>;
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+    objects = [new Registered(), new Registered(), new Registered()];
+  });
+
+  test("objects know their class names", () => {
+    expect(objects[0].className).toEqual("Registered");
+    expect(objects[0].logger.name).toEqual("Registered");
+    expect(new logs.Monitorable().className).toEqual("Monitorable");
+  });
+
+  test("live instances are counted per class", () => {
+    expect(logs.classStats("Registered")).toEqual({
+      name: "Registered",
+      count: 3,
+      highWater: 3,
+      total: 3,
+    });
+    expect(logs.instances("Registered")).toEqual(objects);
+    expect(logs.classes().map((stats) => stats.name)).toContain("Registered");
+    expect(logs.classStats("Unknown")).toBeUndefined();
+    expect(logs.instances("Unknown")).toEqual([]);
+  });
+
+  test("destructed instances are removed, high-water mark is kept", () => {
+    objects[0].destructor();
+    objects[1].destructor();
+    objects.push(new Registered());
+    expect(logs.classStats("Registered")).toEqual({
+      name: "Registered",
+      count: 2,
+      highWater: 3,
+      total: 4,
+    });
+    expect(logs.instances("Registered")).toEqual([objects[2], objects[3]]);
+  });
+
+  test("undestructed objects are reported with class names", () => {
+    expect(logs.lookup(objects[2].uid)).toEqual(objects[2]);
+    expect(logs.lookup(objects[0].uid)).toBeUndefined();
+    expect(logs.liveInstances()).toEqual(
+      expect.arrayContaining([
+        {
+          uid: objects[3].uid,
+          name: "Registered",
+          created: objects[3].constructed,
+        },
+      ]),
+    );
+    expect(
+      logs.liveInstances().filter((item) => item.uid === objects[0].uid),
+    ).toEqual([]);
+  });
+
+  test("classes of the same name are counted separately", () => {
+    const Other = class Registered extends logs.Monitorable {};
+    const other = new Other();
+    expect(other.className).toEqual("Registered");
+    expect(logs.classStats(Other)).toEqual({
+      name: "Registered",
+      count: 1,
+      highWater: 1,
+      total: 1,
+    });
+    expect(logs.classStats(Registered)?.count).toEqual(2);
+    expect(logs.instances(Other)).toEqual([other]);
+    expect(
+      logs.classes().filter((stats) => stats.name === "Registered").length,
+    ).toEqual(2);
+    other.destructor();
+    expect(logs.classStats(Other)?.count).toEqual(0);
+  });
+
+  test("class statistics could be reset", () => {
+    objects[2].destructor();
+    objects[3].destructor();
+    logNS.registry.reset();
+    expect(logs.classStats("Registered")).toEqual({
+      name: "Registered",
+      count: 0,
+      highWater: 0,
+      total: 0,
+    });
+  });
+});
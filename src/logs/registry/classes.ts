@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Declaration of the live instances registry.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logs } from "../Monitorable";
+import { leaks } from "../leaks/WeakValueMap";
+export namespace registry {
+  import WeakValueMap = leaks.WeakValueMap;
+  import Monitorable = logs.Monitorable;
+
+  /**
+   * Statistics of the class instances.
+   */
+  export interface ClassStats {
+    name: string;
+    count: number;
+    highWater: number;
+    total: number;
+  }
+
+  /**
+   * Undestructed instance description.
+   */
+  export interface Instance {
+    uid: string;
+    name: string;
+    created: Date;
+  }
+
+  /**
+   * Monitorable class.
+   */
+  export type Class = new (...args: never[]) => Monitorable;
+
+  /**
+   * Registered class record.
+   */
+  interface Record {
+    name: string;
+    instances: WeakValueMap<string, Monitorable>;
+    live: number;
+    highWater: number;
+    total: number;
+  }
+
+  /**
+   * Registered classes records by the class constructor.
+   */
+  const records: Map<unknown, Record> = new Map();
+
+  /**
+   * Decrements live instances counter of the garbage-collected objects which
+   * were not destructed.
+   */
+  const finalization = new FinalizationRegistry<Record>((record) => {
+    record.live--;
+  });
+
+  /**
+   * Adds constructed object to the registry.
+   * @param obj Constructed object.
+   */
+  export const add = (obj: Monitorable): void => {
+    let record = records.get(obj.constructor);
+    if (!record) {
+      record = {
+        name: obj.className,
+        instances: new WeakValueMap(),
+        live: 0,
+        highWater: 0,
+        total: 0,
+      };
+      records.set(obj.constructor, record);
+    }
+    record.instances.set(obj.uid, obj);
+    finalization.register(obj, record, obj);
+    record.live++;
+    record.total++;
+    record.highWater = Math.max(record.highWater, record.live);
+  };
+
+  /**
+   * Removes destructed object from the registry.
+   * @param obj Destructed object.
+   */
+  export const remove = (obj: Monitorable): void => {
+    const record = records.get(obj.constructor);
+    if (record && record.instances.delete(obj.uid)) {
+      finalization.unregister(obj);
+      record.live--;
+    }
+  };
+
+  /**
+   * Returns record of a given class, or of the first registered class of a
+   * given name.
+   * @param cls Class or class name.
+   */
+  const find = (cls: string | Class): undefined | Record => {
+    if (typeof cls !== "string") {
+      return records.get(cls);
+    }
+    return [...records.values()].find((record) => record.name === cls);
+  };
+
+  /**
+   * Returns statistics of a given class record.
+   * @param record Class record.
+   */
+  const toStats = (record: Record): ClassStats => {
+    return {
+      name: record.name,
+      count: record.live,
+      highWater: record.highWater,
+      total: record.total,
+    };
+  };
+
+  /**
+   * Returns statistics of the registered classes, the largest number of live
+   * instances first. Classes of the same name are reported separately.
+   * Instances which were garbage-collected without the destructor call are
+   * not counted as live.
+   */
+  export const classes = (): Array<ClassStats> => {
+    return [...records.values()].map(toStats).sort((a, b) => b.count - a.count);
+  };
+
+  /**
+   * Returns statistics of a given class, if it's registered.
+   * @param cls Class or class name.
+   */
+  export const stats = (cls: string | Class): undefined | ClassStats => {
+    const record = find(cls);
+    return record ? toStats(record) : undefined;
+  };
+
+  /**
+   * Returns live instances of a given class, the oldest first.
+   * @param cls Class or class name.
+   */
+  export const instances = (cls: string | Class): Array<Monitorable> => {
+    const record = find(cls);
+    return record ? [...record.instances.values()] : [];
+  };
+
+  /**
+   * Returns undestructed object of a given uid, if any.
+   * @param uid Object uid.
+   */
+  export const lookup = (uid: string): undefined | Monitorable => {
+    return logs.undestructed.get(uid);
+  };
+
+  /**
+   * Returns descriptions of the undestructed objects (the
+   * {@link logs.undestructed} map) with their class names, the oldest first.
+   */
+  export const live = (): Array<Instance> => {
+    return [...logs.undestructed.values()].map((obj) => ({
+      uid: obj.uid,
+      name: obj.className,
+      created: obj.constructed,
+    }));
+  };
+
+  /**
+   * Resets high-water marks and totals of the registered classes to the
+   * current number of live instances.
+   */
+  export const reset = (): void => {
+    records.forEach((record) => {
+      record.highWater = record.live;
+      record.total = record.live;
+    });
+  };
+}
@@ -0,0 +1,27 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the registry namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { registry as ns0 } from "./classes";
+
+/**
+ * Live instances registry namespace.
+ */
+export namespace registry {
+  export import ClassStats = ns0.ClassStats;
+  export import Instance = ns0.Instance;
+  export import Class = ns0.Class;
+  export import add = ns0.add;
+  export import remove = ns0.remove;
+  export import classes = ns0.classes;
+  export import stats = ns0.stats;
+  export import instances = ns0.instances;
+  export import lookup = ns0.lookup;
+  export import live = ns0.live;
+  export import reset = ns0.reset;
+}
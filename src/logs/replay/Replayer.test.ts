@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Replayer class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { tree } from "../../tree";
+import { logs } from "../index";
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+describe("Replayer class", () => {
+  const captured: Array<logs.Log> = [];
+  let root: tree.Node;
+  let a: tree.Node;
+  let b: tree.Node;
+  let c: tree.Node;
+  let inserted: number;
+  let replayer: logs.Replayer;
+
+  beforeAll(() => {
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      captured.push(log);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+    root = new tree.Node();
+    a = new tree.Node();
+    b = new tree.Node();
+    c = new tree.Node();
+    root.insert(a);
+    root.insert(b, a);
+    inserted = captured.length;
+    root.replace(a, c);
+    root.remove(b);
+    c.destructor();
+    replayer = new logs.Replayer(captured);
+  });
+
+  test("replayer starts at the beginning of the stream", () => {
+    expect(replayer.position).toEqual(0);
+    expect(replayer.length).toEqual(captured.length);
+    expect(replayer.current).toBeNull();
+    expect(replayer.objects).toEqual([]);
+  });
+
+  test("objects and topology are restored at the position", () => {
+    replayer.seek(inserted);
+    const state = replayer.get(root.uid) as logs.State;
+    expect(state.constructed).toBeInstanceOf(Date);
+    expect(state.destructed).toBeNull();
+    expect(state.children).toEqual([b.uid, a.uid]);
+    expect(state.attributes.get("Monitorable._uid")).toEqual(root.uid);
+    expect((replayer.get(a.uid) as logs.State).parent).toEqual(root.uid);
+    expect((replayer.get(c.uid) as logs.State).parent).toBeNull();
+  });
+
+  test("replace, remove and destruct are applied", () => {
+    replayer.seek(replayer.length);
+    expect(replayer.step()).toBeNull();
+    expect((replayer.get(root.uid) as logs.State).children).toEqual([]);
+    expect((replayer.get(a.uid) as logs.State).parent).toBeNull();
+    expect((replayer.get(b.uid) as logs.State).parent).toBeNull();
+    // destructed log is populated after the object's destruction moment
+    const destructed = (replayer.get(c.uid) as logs.State).destructed as Date;
+    expect(destructed).toBeInstanceOf(Date);
+    expect(destructed.getTime()).toBeGreaterThanOrEqual(
+      (c.destructed as Date).getTime(),
+    );
+  });
+
+  test("replayer could move backward", () => {
+    replayer.seek(inserted);
+    expect((replayer.get(root.uid) as logs.State).children).toEqual([
+      b.uid,
+      a.uid,
+    ]);
+    replayer.until(new Date(0));
+    expect(replayer.position).toEqual(0);
+  });
+
+  test("object history is available", () => {
+    replayer.seek(replayer.length);
+    const history = replayer.history(a.uid);
+    expect(history.length).toBeGreaterThan(0);
+    expect(history.some((log) => log.type === logs.Type.inserted)).toBeTruthy();
+    expect(history.some((log) => log.type === logs.Type.replaced)).toBeTruthy();
+  });
+});
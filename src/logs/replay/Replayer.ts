@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Declaration of the Replayer class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { helpers } from "../helpers";
+import { logger } from "../logger/Log";
+import { message } from "../message";
+import { replay as ns } from "./State";
+export namespace replay {
+  import Log = logger.Log;
+  import Type = message.Type;
+  import Changed = message.Changed;
+  import Inserted = message.Inserted;
+  import Replaced = message.Replaced;
+  import Removed = message.Removed;
+  import State = ns.State;
+  import isRelated = helpers.isRelated;
+
+  /**
+   * Class that reconstructs the objects states and the tree topology from the
+   * captured logs stream. Logs are applied in the given order one by one, so
+   * the state at any point of the stream could be inspected:
+   *
+   * - `constructed` and `destructed` logs define the object lifecycle moments;
+   * - `changed` logs define the object attributes values;
+   * - `inserted`, `replaced` and `removed` logs define the tree topology the
+   * same way the {@link tree.Node | `tree.Node`} methods do.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * const replayer = new logs.Replayer(captured);
+   * replayer.until(new Date("2021-11-28T10:00:00.000Z"));
+   * console.log(replayer.get(uid));
+   * ```
+   */
+  export class Replayer {
+    /**
+     * Logs stream.
+     */
+    private logs: Array<Log>;
+
+    /**
+     * Number of the applied logs.
+     */
+    private cursor = 0;
+
+    /**
+     * Objects states.
+     */
+    private states: Map<string, State> = new Map();
+
+    /**
+     * Number of the applied logs.
+     */
+    public get position(): number {
+      return this.cursor;
+    }
+
+    /**
+     * Number of the logs in the stream.
+     */
+    public get length(): number {
+      return this.logs.length;
+    }
+
+    /**
+     * Last applied log, `null` if there is no applied logs.
+     */
+    public get current(): null | Log {
+      return this.cursor > 0 ? this.logs[this.cursor - 1] : null;
+    }
+
+    /**
+     * States of the all objects known at the current position.
+     */
+    public get objects(): Array<State> {
+      return [...this.states.values()].map((state) => state.clone());
+    }
+
+    /**
+     * Class constructor.
+     * @param logs Logs stream.
+     */
+    public constructor(logs: Iterable<Log>) {
+      this.logs = [...logs];
+    }
+
+    /**
+     * Applies next log of the stream. Returns applied log or `null` if the end
+     * of the stream is reached.
+     */
+    public step(): null | Log {
+      if (this.cursor >= this.logs.length) {
+        return null;
+      }
+      const log = this.logs[this.cursor];
+      this.apply(log);
+      this.cursor++;
+      return log;
+    }
+
+    /**
+     * Moves to a given position of the stream, so the first `position` logs
+     * are applied.
+     * @param position Number of the logs to apply.
+     */
+    public seek(position: number): void {
+      const target = Math.max(0, Math.min(position, this.logs.length));
+      if (target < this.cursor) {
+        this.cursor = 0;
+        this.states = new Map();
+      }
+      while (this.cursor < target) {
+        this.step();
+      }
+    }
+
+    /**
+     * Moves to the position where all logs created not later than a given
+     * moment are applied.
+     * @param time Moment to move to.
+     */
+    public until(time: Date): void {
+      let position = 0;
+      while (
+        position < this.logs.length &&
+        this.logs[position].timestamp.getTime() <= time.getTime()
+      ) {
+        position++;
+      }
+      this.seek(position);
+    }
+
+    /**
+     * Returns state of the object with a given uid at the current position,
+     * `null` if object is unknown.
+     * @param uid Object uid.
+     */
+    public get(uid: string): null | State {
+      const state = this.states.get(uid);
+      return state ? state.clone() : null;
+    }
+
+    /**
+     * Returns applied logs related to the object with a given uid.
+     * @param uid Object uid.
+     */
+    public history(uid: string): Array<Log> {
+      return this.logs
+        .slice(0, this.cursor)
+        .filter((log) => isRelated(log, uid));
+    }
+
+    /**
+     * Returns state of the object with a given uid, creates it if not exist.
+     * @param uid Object uid.
+     */
+    private state(uid: string): State {
+      let state = this.states.get(uid);
+      if (!state) {
+        state = new State(uid);
+        this.states.set(uid, state);
+      }
+      return state;
+    }
+
+    /**
+     * Detaches node from its parent node if any.
+     * @param node Node state.
+     */
+    private detach(node: State): void {
+      if (node.parent) {
+        const parent = this.state(node.parent);
+        const i = parent.children.indexOf(node.uid);
+        if (~i) {
+          parent.children.splice(i, 1);
+        }
+        node.parent = null;
+      }
+    }
+
+    /**
+     * Applies log to the states.
+     * @param log Log to apply.
+     */
+    private apply(log: Log): void {
+      const state = this.state(log.logger.uid);
+      switch (log.type) {
+        case Type.constructed: {
+          state.constructed = log.timestamp;
+          state.destructed = null;
+          break;
+        }
+        case Type.destructed: {
+          state.destructed = log.timestamp;
+          this.detach(state);
+          break;
+        }
+        case Type.changed: {
+          const msg = log.message as Changed;
+          state.attributes.set(`${msg.namespace}.${msg.attribute}`, msg.value);
+          break;
+        }
+        case Type.inserted: {
+          const msg = log.message as Inserted;
+          const child = this.state(msg.child);
+          const i = state.children.indexOf(msg.child);
+          if (~i) {
+            state.children.splice(i, 1);
+          }
+          const idx = msg.before ? state.children.indexOf(msg.before) : -1;
+          if (~idx) {
+            state.children.splice(idx, 0, msg.child);
+          } else {
+            state.children.push(msg.child);
+          }
+          child.parent = state.uid;
+          break;
+        }
+        case Type.replaced: {
+          const msg = log.message as Replaced;
+          const to = this.state(msg.to);
+          const i = state.children.indexOf(msg.to);
+          if (~i) {
+            state.children.splice(i, 1);
+          }
+          this.state(msg.existing).parent = null;
+          to.parent = state.uid;
+          const idx = state.children.indexOf(msg.existing);
+          if (~idx) {
+            state.children.splice(idx, 1, msg.to);
+          }
+          break;
+        }
+        case Type.removed: {
+          const msg = log.message as Removed;
+          const i = state.children.indexOf(msg.child);
+          if (~i) {
+            state.children.splice(i, 1);
+          }
+          this.state(msg.child).parent = null;
+          break;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Declaration of the State class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { message } from "../message";
+export namespace replay {
+  import Value = message.Value;
+
+  /**
+   * Replayed state of the object at some moment of the logs stream.
+   */
+  export class State {
+    /**
+     * Object unique identifier.
+     */
+    uid: string;
+
+    /**
+     * Object construction moment, `null` if it wasn't logged yet.
+     */
+    constructed: null | Date = null;
+
+    /**
+     * Object destruction moment, `null` if it wasn't logged yet.
+     */
+    destructed: null | Date = null;
+
+    /**
+     * Last logged values of the object attributes. Keys are in the
+     * `namespace.attribute` format.
+     */
+    attributes: Map<string, Value> = new Map();
+
+    /**
+     * Parent node uid, `null` if object has no parent.
+     */
+    parent: null | string = null;
+
+    /**
+     * Children nodes uids.
+     */
+    children: Array<string> = [];
+
+    /**
+     * Class constructor.
+     * @param uid Object unique identifier.
+     */
+    constructor(uid: string) {
+      this.uid = uid;
+    }
+
+    /**
+     * Returns state copy.
+     */
+    clone(): State {
+      const state = new State(this.uid);
+      state.constructed = this.constructed;
+      state.destructed = this.destructed;
+      state.attributes = new Map(this.attributes);
+      state.parent = this.parent;
+      state.children = this.children.slice();
+      return state;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the replay namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { replay as ns0 } from "./State";
+import { replay as ns1 } from "./Replayer";
+
+/**
+ * Logs replay namespace.
+ */
+export namespace replay {
+  export import State = ns0.State;
+  export import Replayer = ns1.Replayer;
+}
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Scope class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../../symbols";
+import { errors } from "../../errors";
+import { tree } from "../../tree";
+import { logs } from "../index";
+import destruct = symbolsNS.destruct;
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+describe("Scope class", () => {
+  const order: Array<string> = [];
+
+  /**
+   * Monitorable child class which records its destruction.
+   */
+  class Named extends logs.Monitorable {
+    public name = "";
+    public failure: null | Error = null;
+    protected [destruct](): void {
+      order.push(this.name);
+      if (this.failure) {
+        throw this.failure;
+      }
+      super[destruct]();
+    }
+  }
+
+  const getNamed = (name: string): Named => {
+    const obj = new Named();
+    obj.name = name;
+    return obj;
+  };
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+  });
+
+  beforeEach(() => {
+    order.length = 0;
+  });
+
+  test("objects are destructed in reverse order", () => {
+    let destructed: null | Named = null;
+    const result = logs.Scope.run((scope) => {
+      getNamed("a");
+      destructed = getNamed("b");
+      getNamed("c");
+      destructed.destructor();
+      expect(logs.Scope.current()).toBe(scope);
+      expect(scope.objects.length).toEqual(2);
+      return "result";
+    });
+    expect(result).toEqual("result");
+    expect(order).toEqual(["b", "c", "a"]);
+    expect(logs.Scope.current()).toBeNull();
+  });
+
+  test("async scope owns objects across await", async () => {
+    const objects: Array<logs.Monitorable> = [];
+    await logs.Scope.run(async () => {
+      objects.push(new tree.Node());
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      objects.push(new tree.Node());
+    });
+    objects.forEach((obj) => expect(obj.destructed).toBeTruthy());
+  });
+
+  test("nested objects are owned by the inner scope", () => {
+    const outer = new logs.Scope();
+    const inner = new logs.Scope();
+    outer.run(() => {
+      getNamed("outer");
+      inner.run(() => getNamed("inner"));
+    });
+    expect(outer.objects.length).toEqual(1);
+    inner.end();
+    expect(order).toEqual(["inner"]);
+    outer.end();
+    expect(order).toEqual(["inner", "outer"]);
+  });
+
+  test("destruction failures are aggregated", () => {
+    const scope = new logs.Scope();
+    const [a, b] = scope.run(() => [getNamed("a"), getNamed("b")]);
+    getNamed("unscoped").destructor();
+    a.failure = new Error("a");
+    b.failure = new Error("b");
+    let error: unknown = null;
+    try {
+      scope.end();
+    } catch (err) {
+      error = err;
+    }
+    expect(order).toEqual(["unscoped", "b", "a"]);
+    expect((error as errors.AggregateError).code).toEqual(
+      errors.Code.DESTRUCT_SCOPE,
+    );
+    expect((error as errors.AggregateError).errors).toEqual([
+      b.failure,
+      a.failure,
+    ]);
+  });
+
+  test("dispose symbols are implemented", async () => {
+    const obj = getNamed("sync");
+    obj[symbolsNS.dispose]();
+    obj[symbolsNS.dispose]();
+    expect(obj.destructed).toBeTruthy();
+    const node = new tree.Node();
+    await node[symbolsNS.asyncDispose]();
+    expect(node.destructed).toBeTruthy();
+    const scope = new logs.Scope();
+    scope.run(() => getNamed("scoped"));
+    scope[symbolsNS.dispose]();
+    expect(order).toEqual(["sync", "scoped"]);
+  });
+});
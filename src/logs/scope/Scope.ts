@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Declaration of the Scope class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { errors } from "../../errors";
+import { symbolsNS } from "../../symbols";
+import { logs } from "../Monitorable";
+export namespace scope {
+  import Monitorable = logs.Monitorable;
+  import dispose = symbolsNS.dispose;
+  import asyncDispose = symbolsNS.asyncDispose;
+
+  /**
+   * Current scope storage.
+   */
+  const storage: AsyncLocalStorage<Scope> = new AsyncLocalStorage();
+
+  /**
+   * Returns error to throw for the given destruction failures.
+   * @param failures Destruction failures.
+   */
+  const failure = (failures: Array<unknown>): unknown => {
+    return failures.length === 1
+      ? failures[0]
+      : new errors.AggregateError(
+          errors.Code.DESTRUCT_SCOPE,
+          errors.Description.DESTRUCT_SCOPE,
+          failures,
+        );
+  };
+
+  /**
+   * Disposal scope. Owns every `Monitorable` object constructed while the
+   * scope is running (including asynchronous continuations) and destructs
+   * them in reverse order when the scope ends. Objects destructed before the
+   * end of the scope are skipped. Scope supports `using` and `await using`
+   * declarations.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * await logs.Scope.run(async () => {
+   *   const root = new Node();
+   *   root.insert(new Node());
+   *   await work(root);
+   * }); // all nodes are destructed here
+   * ```
+   */
+  export class Scope {
+    /**
+     * Owned objects in the order of their construction.
+     */
+    private owned: Array<Monitorable> = [];
+
+    /**
+     * Whether the scope is ended.
+     */
+    private ended = false;
+
+    /**
+     * Returns currently running scope, `null` if there is no one.
+     */
+    static current(): null | Scope {
+      return storage.getStore() || null;
+    }
+
+    /**
+     * Runs callback in the new scope and ends the scope when the callback (or
+     * the promise it returns) is settled. Returns callback result.
+     * @param callback Function to run.
+     */
+    static run<T>(callback: (scope: Scope) => T): T {
+      const scope = new Scope();
+      let result: T;
+      try {
+        result = scope.run(() => callback(scope));
+      } catch (err) {
+        try {
+          scope.end();
+        } catch (error) {
+          // callback error takes precedence over the destruction one
+        }
+        throw err;
+      }
+      if (result instanceof Promise) {
+        return result.then(
+          async (value) => {
+            await scope.endAsync();
+            return value as unknown;
+          },
+          async (err) => {
+            await scope.endAsync().catch(() => undefined);
+            throw err;
+          },
+        ) as unknown as T;
+      }
+      scope.end();
+      return result;
+    }
+
+    /**
+     * Owned undestructed objects in the order of their construction.
+     */
+    get objects(): Array<Monitorable> {
+      return this.owned.filter((obj) => !obj.destructed);
+    }
+
+    /**
+     * Runs callback within the scope, so objects constructed by it are owned
+     * by the scope. Returns callback result.
+     * @param callback Function to run.
+     */
+    run<T>(callback: () => T): T {
+      return storage.run(this, callback);
+    }
+
+    /**
+     * Adds object to the scope. Object is destructed right away if the scope
+     * is already ended.
+     * @param obj Object to own.
+     */
+    add(obj: Monitorable): void {
+      if (this.ended) {
+        obj.destructor();
+      } else if (this.owned.indexOf(obj) === -1) {
+        this.owned.push(obj);
+      }
+    }
+
+    /**
+     * Ends the scope and destructs owned undestructed objects in reverse
+     * order. Destruction failures don't stop the rest of objects from the
+     * destruction and are thrown afterwards (several failures are wrapped
+     * into the `DESTRUCT_SCOPE` aggregate error).
+     */
+    end(): void {
+      const failures: Array<unknown> = [];
+      this.release().forEach((obj) => {
+        try {
+          if (!obj.destructed) {
+            obj.destructor();
+          }
+        } catch (err) {
+          failures.push(err);
+        }
+      });
+      if (failures.length) {
+        throw failure(failures);
+      }
+    }
+
+    /**
+     * Asynchronously ends the scope. Same as the {@link Scope.end}, but
+     * objects are destructed with the
+     * {@link Monitorable.destructorAsync | `destructorAsync`}, one by one.
+     * @param timeout Timeout of each object asynchronous destruction, ms (0
+     * if unlimited).
+     */
+    async endAsync(timeout = 0): Promise<void> {
+      const failures: Array<unknown> = [];
+      for (const obj of this.release()) {
+        try {
+          if (!obj.destructed) {
+            await obj.destructorAsync(timeout);
+          }
+        } catch (err) {
+          failures.push(err);
+        }
+      }
+      if (failures.length) {
+        throw failure(failures);
+      }
+    }
+
+    /**
+     * Ends the scope (`using` declaration support).
+     */
+    [dispose](): void {
+      this.end();
+    }
+
+    /**
+     * Asynchronously ends the scope (`await using` declaration support).
+     */
+    [asyncDispose](): Promise<void> {
+      return this.endAsync();
+    }
+
+    /**
+     * Marks the scope as ended and returns owned objects in reverse order.
+     */
+    private release(): Array<Monitorable> {
+      this.ended = true;
+      const owned = this.owned.reverse();
+      this.owned = [];
+      return owned;
+    }
+  }
+}
@@ -0,0 +1,17 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the scope namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { scope as ns0 } from "./Scope";
+
+/**
+ * Disposal scopes namespace.
+ */
+export namespace scope {
+  export import Scope = ns0.Scope;
+}
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Declaration of the ConsoleSink class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logger } from "../logger/Log";
+import { sink as ns } from "./Sink";
+export namespace sink {
+  import Log = logger.Log;
+  import Sink = ns.Sink;
+
+  /**
+   * Sink that outputs logs to the console.
+   */
+  export class ConsoleSink extends Sink {
+    /**
+     * @override
+     */
+    public write(logs: Array<Log>): void {
+      logs.forEach((log) => {
+        console.log(log);
+      });
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview FileSink class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { logs } from "../index";
+
+describe("FileSink class", () => {
+  const logger = new logs.Logger("file", logs.Level.TRACE);
+  let dir: string;
+  let sink: logs.FileSink;
+
+  const getLog = (value: string): logs.Log => {
+    return new logs.Log(logger, null, logs.Type.string, logs.Level.INFO, value);
+  };
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mdln-"));
+    sink = new logs.FileSink({ dir, name: "test", maxSize: 300, maxFiles: 2 });
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("logs are written as JSON lines", async () => {
+    const log = getLog("first");
+    await sink.write([log]);
+    const lines = fs
+      .readFileSync(sink.file as string, "utf8")
+      .split("\n")
+      .filter((line) => line.length > 0);
+    expect(lines.length).toEqual(1);
+    const record = JSON.parse(lines[0]) as logs.LogJSON;
+    expect(record.version).toEqual(1);
+    expect(record.timestamp).toEqual(log.timestamp.toISOString());
+    expect(record.thread).toBeNull();
+    expect(record.level).toEqual("INFO");
+    expect(record.type).toEqual(logs.Type.string);
+    expect(record.logger).toEqual("file");
+    expect(record.message).toEqual("first");
+    expect(record.stack).toBeNull();
+  });
+
+  test("files are rotated by size and pruned", async () => {
+    for (let i = 0; i < 10; i++) {
+      await sink.write([getLog(`log ${i}`)]);
+    }
+    const files = fs.readdirSync(dir);
+    expect(files.length).toEqual(2);
+    expect(files).toContain(path.basename(sink.file as string));
+    files.forEach((file) => {
+      expect(fs.statSync(path.join(dir, file)).size).toBeLessThanOrEqual(300);
+    });
+  });
+
+  test("files left by the previous runs are pruned on open", async () => {
+    const stale = fs.mkdtempSync(path.join(os.tmpdir(), "mdln-"));
+    ["2020-01-01", "2020-01-02", "2020-01-03"].forEach((day) => {
+      fs.writeFileSync(path.join(stale, `test.${day}.0.ndjson`), "{}\n");
+    });
+    const other = new logs.FileSink({ dir: stale, name: "test", maxFiles: 2 });
+    await other.write([getLog("first")]);
+    const files = fs.readdirSync(stale).sort();
+    expect(files).toEqual([
+      "test.2020-01-03.0.ndjson",
+      path.basename(other.file as string),
+    ]);
+    fs.rmSync(stale, { recursive: true, force: true });
+  });
+
+  test("failed open leaves the sink closed", async () => {
+    const other = new logs.FileSink({ dir, name: "failed" });
+    const readdir = jest
+      .spyOn(fs.promises, "readdir")
+      .mockRejectedValueOnce(new Error("EACCES"));
+    await expect(other.write([getLog("first")])).rejects.toThrow("EACCES");
+    expect(other.file).toBeNull();
+    readdir.mockRestore();
+    await other.write([getLog("second")]);
+    expect(other.file).toEqual(
+      path.join(
+        dir,
+        `failed.${new Date().toISOString().slice(0, 10)}.0.ndjson`,
+      ),
+    );
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Declaration of the FileSink class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { level } from "../level";
+import { logger } from "../logger/Log";
+import { sink as ns } from "./Sink";
+export namespace sink {
+  import Level = level.Level;
+  import Log = logger.Log;
+  import Sink = ns.Sink;
+
+  /**
+   * Returns UTC day string (`YYYY-MM-DD`) for a given date.
+   * @param date Date to convert.
+   */
+  const getDay = (date: Date): string => {
+    return date.toISOString().slice(0, 10);
+  };
+
+  /**
+   * Sink that writes logs to the files in the JSON Lines (NDJSON) format, one
+   * log per line in the {@link logs.LogJSON | `LogJSON`} wire format. Files
+   * are named `<name>.<YYYY-MM-DD>.<index>.ndjson` and rotated when the day
+   * of the log changes (if `daily` is set) or when the file size exceeds
+   * `maxSize` bytes. On open and after each rotation files beyond `maxFiles`
+   * count or older than `maxAge` are removed.
+   */
+  export class FileSink extends Sink {
+    /**
+     * Logs directory path.
+     */
+    public readonly dir: string;
+
+    /**
+     * Log files name prefix.
+     */
+    public readonly name: string;
+
+    /**
+     * File size limit in bytes, 0 if size rotation is disabled.
+     */
+    public readonly maxSize: number;
+
+    /**
+     * Daily rotation flag.
+     */
+    public readonly daily: boolean;
+
+    /**
+     * Number of the kept files, 0 if unlimited.
+     */
+    public readonly maxFiles: number;
+
+    /**
+     * Maximum age of the kept files in ms, 0 if unlimited.
+     */
+    public readonly maxAge: number;
+
+    /**
+     * Current file day.
+     */
+    private day: null | string = null;
+
+    /**
+     * Current file index within the day.
+     */
+    private index = 0;
+
+    /**
+     * Current file size in bytes.
+     */
+    private size = 0;
+
+    /**
+     * Pending writes queue.
+     */
+    private queue: Promise<void> = Promise.resolve();
+
+    /**
+     * Current file path.
+     */
+    public get file(): null | string {
+      return this.day === null
+        ? null
+        : path.join(this.dir, `${this.name}.${this.day}.${this.index}.ndjson`);
+    }
+
+    /**
+     * Class constructor.
+     * @param options Sink options:
+     * @param options.dir Logs directory path.
+     * @param options.name Log files name prefix (`mdln` by default).
+     * @param options.level Level threshold ({@link Level.TRACE} by default).
+     * @param options.maxSize Rotate file when it exceeds this size in bytes.
+     * @param options.daily Rotate file when the log day changes.
+     * @param options.maxFiles Number of the kept files.
+     * @param options.maxAge Maximum age of the kept files in ms.
+     */
+    public constructor(options: {
+      dir: string;
+      name?: string;
+      level?: Level;
+      maxSize?: number;
+      daily?: boolean;
+      maxFiles?: number;
+      maxAge?: number;
+    }) {
+      super(options.level);
+      this.dir = options.dir;
+      this.name = options.name || "mdln";
+      this.maxSize = options.maxSize || 0;
+      this.daily = !!options.daily;
+      this.maxFiles = options.maxFiles || 0;
+      this.maxAge = options.maxAge || 0;
+    }
+
+    /**
+     * @override
+     */
+    public write(logs: Array<Log>): Promise<void> {
+      const result = this.queue.then(() => this.append(logs));
+      this.queue = result.catch(() => undefined);
+      return result;
+    }
+
+    /**
+     * Appends logs to the files, rotating them if needed.
+     * @param logs Logs to append.
+     */
+    private async append(logs: Array<Log>): Promise<void> {
+      let rotated = false;
+      if (this.day === null) {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        await this.open(getDay(logs[0].timestamp));
+        // files left by the previous runs are pruned once on open
+        rotated = true;
+      }
+      let chunk = "";
+      for (let i = 0; i < logs.length; i++) {
+        const line = `${JSON.stringify(logs[i])}\n`;
+        const bytes = Buffer.byteLength(line);
+        const day = getDay(logs[i].timestamp);
+        const overflow =
+          this.maxSize > 0 && this.size > 0 && this.size + bytes > this.maxSize;
+        if ((this.daily && day !== this.day) || overflow) {
+          await this.flush(chunk);
+          chunk = "";
+          if (this.daily && day !== this.day) {
+            await this.open(day);
+          } else {
+            this.index++;
+            this.size = 0;
+          }
+          rotated = true;
+        }
+        chunk += line;
+        this.size += bytes;
+      }
+      await this.flush(chunk);
+      if (rotated) {
+        await this.prune();
+      }
+    }
+
+    /**
+     * Switches sink to the last file of a given day.
+     * @param day Day string.
+     */
+    private async open(day: string): Promise<void> {
+      const prefix = `${this.name}.${day}.`;
+      const files = await fs.promises.readdir(this.dir);
+      let last = 0;
+      files.forEach((file) => {
+        if (file.startsWith(prefix) && file.endsWith(".ndjson")) {
+          const index = parseInt(file.slice(prefix.length), 10);
+          if (index > last) {
+            last = index;
+          }
+        }
+      });
+      let size: number;
+      try {
+        size = (
+          await fs.promises.stat(path.join(this.dir, `${prefix}${last}.ndjson`))
+        ).size;
+      } catch (err) {
+        size = 0;
+      }
+      this.day = day;
+      this.index = last;
+      this.size = size;
+    }
+
+    /**
+     * Appends chunk to the current file.
+     * @param chunk Chunk to append.
+     */
+    private async flush(chunk: string): Promise<void> {
+      if (chunk.length > 0) {
+        await fs.promises.appendFile(this.file as string, chunk);
+      }
+    }
+
+    /**
+     * Removes files according to the retention policy.
+     */
+    private async prune(): Promise<void> {
+      if (this.maxFiles === 0 && this.maxAge === 0) {
+        return;
+      }
+      const re = new RegExp(
+        `^${this.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}` +
+          "\\.(\\d{4}-\\d{2}-\\d{2})\\.(\\d+)\\.ndjson$",
+      );
+      const files: Array<{ file: string; day: string; index: number }> = [];
+      (await fs.promises.readdir(this.dir)).forEach((file) => {
+        const match = re.exec(file);
+        if (match) {
+          files.push({ file, day: match[1], index: parseInt(match[2], 10) });
+        }
+      });
+      files.sort((a, b) =>
+        a.day === b.day ? b.index - a.index : a.day < b.day ? 1 : -1,
+      );
+      const now = Date.now();
+      for (let i = 0; i < files.length; i++) {
+        const file = path.join(this.dir, files[i].file);
+        if (file === this.file) {
+          continue;
+        }
+        let remove = this.maxFiles > 0 && i >= this.maxFiles;
+        if (!remove && this.maxAge > 0) {
+          const stat = await fs.promises.stat(file);
+          remove = now - stat.mtimeMs > this.maxAge;
+        }
+        if (remove) {
+          await fs.promises.unlink(file);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Declaration of the MemorySink class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../../symbols";
+import { logger } from "../logger/Log";
+import { sink as ns } from "./Sink";
+export namespace sink {
+  import Log = logger.Log;
+  import Sink = ns.Sink;
+  import _buffer = symbolsNS._buffer;
+
+  /**
+   * Sink that keeps logs in memory. Useful for tests and for the runtime
+   * inspection of the logged data.
+   */
+  export class MemorySink extends Sink {
+    /**
+     * Stored logs.
+     */
+    private [_buffer]: Array<Log> = [];
+
+    /**
+     * Stored logs array copy.
+     */
+    public get logs(): Array<Log> {
+      return this[_buffer].slice();
+    }
+
+    /**
+     * @override
+     */
+    public write(logs: Array<Log>): void {
+      this[_buffer].push(...logs);
+    }
+
+    /**
+     * Removes all stored logs.
+     */
+    public clear(): void {
+      this[_buffer] = [];
+    }
+  }
+}
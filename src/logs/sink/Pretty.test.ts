@@ -0,0 +1,112 @@
+/**
+ * @fileoverview PrettySink class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { Writable } from "stream";
+import { logNS, logs } from "../index";
+
+/**
+ * Collecting writable stream for tests.
+ */
+class TestStream extends Writable {
+  public output = "";
+  public isTTY = true;
+  public _write(
+    chunk: Buffer,
+    encoding: string,
+    callback: (error?: Error | null) => void,
+  ): void {
+    this.output += chunk.toString();
+    callback();
+  }
+}
+
+describe("PrettySink class", () => {
+  const logger = new logs.Logger("pretty", logs.Level.TRACE);
+  const uid = "0c3e5f10-0000-0000-0000-000000000000";
+
+  test("messages are rendered and grouped by thread", () => {
+    const stream = new TestStream();
+    const sink = new logs.PrettySink({ stream, color: false });
+    sink.write([
+      new logs.Log(
+        logger,
+        "aaaaaaaa-thread",
+        logs.Type.inserted,
+        logs.Level.DEBUG,
+        logNS.message.getInserted(uid),
+      ),
+      new logs.Log(
+        logger,
+        "bbbbbbbb-thread",
+        logs.Type.called,
+        logs.Level.TRACE,
+        logs.getCalled("nodes", "Map", "set", [uid, 1]),
+        null,
+        "aaaaaaaa-thread",
+      ),
+      new logs.Log(
+        logger,
+        "aaaaaaaa-thread",
+        logs.Type.string,
+        logs.Level.INFO,
+        "done",
+      ),
+    ]);
+    const lines = stream.output.split("\n");
+    expect(lines[0]).toEqual("thread aaaaaaaa");
+    expect(lines[1]).toMatch(/^ {2}\d\d:\d\d:\d\d\.\d{3} DEBUG /);
+    expect(lines[1]).toContain("Inserted child=0c3e5f10 before=null");
+    expect(lines[2]).toContain('"done"');
+    expect(lines[3]).toEqual("  thread bbbbbbbb < aaaaaaaa");
+    expect(lines[4]).toMatch(/^ {4}\S+ TRACE /);
+    expect(lines[4]).toContain(`Called nodes.set("${uid}", 1)`);
+    expect(stream.output).not.toContain("\x1b[");
+  });
+
+  test("logger class name prefixes logger uid", () => {
+    const sink = new logs.PrettySink({ color: false });
+    const named = new logs.Logger(uid, logs.Level.TRACE, "Node");
+    expect(
+      sink.format(new logs.Log(named, null, logs.Type.string, 0, "text")),
+    ).toContain(" Node:0c3e5f10 string ");
+  });
+
+  test("colors respect NO_COLOR and TTY", () => {
+    const log = new logs.Log(
+      logger,
+      null,
+      logs.Type.string,
+      logs.Level.WARN,
+      "warn",
+    );
+    const env = process.env.NO_COLOR;
+    delete process.env.NO_COLOR;
+    const tty = new TestStream();
+    new logs.PrettySink({ stream: tty }).write([log]);
+    expect(tty.output).toContain("\x1b[33mWARN ");
+
+    const pipe = new TestStream();
+    pipe.isTTY = false;
+    new logs.PrettySink({ stream: pipe }).write([log]);
+    expect(pipe.output).not.toContain("\x1b[");
+
+    process.env.NO_COLOR = "";
+    const empty = new TestStream();
+    new logs.PrettySink({ stream: empty }).write([log]);
+
+    process.env.NO_COLOR = "1";
+    const nocolor = new TestStream();
+    new logs.PrettySink({ stream: nocolor }).write([log]);
+    if (env === undefined) {
+      delete process.env.NO_COLOR;
+    } else {
+      process.env.NO_COLOR = env;
+    }
+    expect(empty.output).toContain("\x1b[33mWARN ");
+    expect(nocolor.output).not.toContain("\x1b[");
+  });
+});
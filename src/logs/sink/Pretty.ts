@@ -0,0 +1,255 @@
+/**
+ * @fileoverview Declaration of the PrettySink class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { level } from "../level";
+import { logger } from "../logger/Log";
+import { message } from "../message";
+import { sink as ns } from "./Sink";
+export namespace sink {
+  import Level = level.Level;
+  import Log = logger.Log;
+  import Type = message.Type;
+  import Value = message.Value;
+  import Checkpoint = message.Checkpoint;
+  import Changed = message.Changed;
+  import Inserted = message.Inserted;
+  import Replaced = message.Replaced;
+  import Removed = message.Removed;
+  import Called = message.Called;
+  import ErrorLog = message.ErrorLog;
+  import Sink = ns.Sink;
+
+  /**
+   * ANSI colors of the log levels.
+   */
+  const colors: { [level: number]: string } = {
+    [Level.TRACE]: "\x1b[90m",
+    [Level.DEBUG]: "\x1b[36m",
+    [Level.INFO]: "\x1b[32m",
+    [Level.WARN]: "\x1b[33m",
+    [Level.ERROR]: "\x1b[31m",
+    [Level.FATAL]: "\x1b[35m",
+  };
+
+  /**
+   * ANSI dim and reset sequences.
+   */
+  const dim = "\x1b[2m";
+  const reset = "\x1b[0m";
+
+  /**
+   * Maximum number of the remembered threads depths.
+   */
+  const MAX_THREADS = 1000;
+
+  /**
+   * Returns short representation of a given uid.
+   * @param uid Uid to shorten.
+   */
+  const short = (uid: null | string): string => {
+    return uid === null ? "null" : uid.slice(0, 8);
+  };
+
+  /**
+   * Returns human-readable representation of a given value.
+   * @param val Value to render.
+   */
+  const value = (val: Value): string => {
+    if (val instanceof Date) {
+      return val.toISOString();
+    } else if (typeof val === "string") {
+      return JSON.stringify(val);
+    } else {
+      return String(val);
+    }
+  };
+
+  /**
+   * Returns human-readable representation of a given log message.
+   * @param log Log to render.
+   */
+  const render = (log: Log): string => {
+    switch (log.type) {
+      case Type.checkpoint: {
+        const msg = log.message as Checkpoint;
+        return `Checkpoint ${msg.name}=${msg.value}`;
+      }
+      case Type.constructed:
+        return "Constructed";
+      case Type.destructed:
+        return "Destructed";
+      case Type.changed: {
+        const msg = log.message as Changed;
+        return `Changed ${msg.namespace}.${msg.attribute}=${value(msg.value)}`;
+      }
+      case Type.inserted: {
+        const msg = log.message as Inserted;
+        return `Inserted child=${short(msg.child)} before=${short(
+          msg.before || null,
+        )}`;
+      }
+      case Type.replaced: {
+        const msg = log.message as Replaced;
+        return `Replaced existing=${short(msg.existing)} to=${short(msg.to)}`;
+      }
+      case Type.removed: {
+        const msg = log.message as Removed;
+        return `Removed child=${short(msg.child)}`;
+      }
+      case Type.called: {
+        const msg = log.message as Called;
+        const args = msg.args.map(value).join(", ");
+        return `Called ${msg.name}.${msg.method}(${args})`;
+      }
+      case Type.error: {
+        const msg = log.message as ErrorLog;
+        return `Error code=${msg.code} ${msg.message}`;
+      }
+      default:
+        return value(log.message as Value);
+    }
+  };
+
+  /**
+   * Sink that outputs human-readable logs: colorized level, short logger uid
+   * (prefixed with the logger owner class name if it's known), message type
+   * and rendered message. Logs of the same write are grouped by thread and
+   * indented according to the thread nesting depth.
+   *
+   * Colors are used only if the output stream is a TTY and the `NO_COLOR`
+   * environment variable is not set to a non-empty string, unless explicitly
+   * configured.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * logs.addSink(new logs.PrettySink({ level: logs.Level.DEBUG }));
+   *
+   * // thread 1b4e28ba
+   * //   12:00:00.000 DEBUG Node:9f1c7a2e inserted    Inserted child=0c3e5f10 before=null
+   * ```
+   */
+  export class PrettySink extends Sink {
+    /**
+     * Output stream.
+     */
+    private stream: NodeJS.WritableStream;
+
+    /**
+     * Whether colors are used.
+     */
+    private color: boolean;
+
+    /**
+     * Known threads depths.
+     */
+    private depths: Map<string, number> = new Map();
+
+    /**
+     * Class constructor.
+     * @param options Sink options:
+     * @param options.level Level threshold ({@link Level.TRACE} by default).
+     * @param options.stream Output stream (`process.stdout` by default).
+     * @param options.color Whether to use colors (detected by default).
+     */
+    public constructor(
+      options: {
+        level?: Level;
+        stream?: NodeJS.WritableStream & { isTTY?: boolean };
+        color?: boolean;
+      } = {},
+    ) {
+      super(options.level);
+      const stream = options.stream || process.stdout;
+      this.stream = stream;
+      this.color =
+        options.color !== undefined
+          ? options.color
+          : !process.env.NO_COLOR && stream.isTTY === true;
+    }
+
+    /**
+     * @override
+     */
+    public write(logs: Array<Log>): void {
+      const groups: Map<null | string, Array<Log>> = new Map();
+      logs.forEach((log) => {
+        const group = groups.get(log.thread);
+        if (group) {
+          group.push(log);
+        } else {
+          groups.set(log.thread, [log]);
+        }
+      });
+      const lines: Array<string> = [];
+      groups.forEach((group, thread) => {
+        const depth = this.depth(thread, group[0].parent);
+        const indent = "  ".repeat(depth);
+        if (thread !== null) {
+          const parent =
+            group[0].parent === null ? "" : ` < ${short(group[0].parent)}`;
+          lines.push(
+            `${indent}${this.paint(`thread ${short(thread)}${parent}`)}`,
+          );
+        }
+        group.forEach((log) => {
+          lines.push(
+            `${indent}${thread === null ? "" : "  "}${this.format(log)}`,
+          );
+        });
+      });
+      this.stream.write(`${lines.join("\n")}\n`);
+    }
+
+    /**
+     * Returns formatted log line.
+     * @param log Log to format.
+     */
+    public format(log: Log): string {
+      const time = log.timestamp.toISOString().slice(11, 23);
+      const lvl = (Level[log.level] || String(log.level)).padEnd(5);
+      return [
+        this.paint(time),
+        this.color ? `${colors[log.level] || ""}${lvl}${reset}` : lvl,
+        log.logger.name === null
+          ? short(log.logger.uid)
+          : `${log.logger.name}:${short(log.logger.uid)}`,
+        log.type.padEnd(11),
+        render(log),
+      ].join(" ");
+    }
+
+    /**
+     * Returns dimmed text if colors are used.
+     * @param text Text to dim.
+     */
+    private paint(text: string): string {
+      return this.color ? `${dim}${text}${reset}` : text;
+    }
+
+    /**
+     * Returns and remembers nesting depth of a given thread.
+     * @param thread Thread uid.
+     * @param parent Parent thread uid.
+     */
+    private depth(thread: null | string, parent: null | string): number {
+      if (thread === null) {
+        return 0;
+      }
+      let depth = this.depths.get(thread);
+      if (depth === undefined) {
+        depth = parent === null ? 0 : (this.depths.get(parent) || 0) + 1;
+        if (this.depths.size >= MAX_THREADS) {
+          this.depths.clear();
+        }
+        this.depths.set(thread, depth);
+      }
+      return depth;
+    }
+  }
+}
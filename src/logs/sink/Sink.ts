@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Declaration of the Sink class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../../symbols";
+import { level } from "../level";
+import { logger } from "../logger/Log";
+export namespace sink {
+  import Level = level.Level;
+  import Log = logger.Log;
+  import _level = symbolsNS._level;
+
+  /**
+   * Base class for the logs sinks. Sink is a destination to which the
+   * {@link logs.Buffer | `logs.Buffer`} fans out synchronized logs. Each sink
+   * has its own level threshold and receives only logs with the level greater
+   * or equal to it.
+   *
+   * To implement custom sink extend this class and implement the
+   * {@link Sink.write | `Sink#write`} method.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * class MySink extends logs.Sink {
+   *   public write(logs: Array<logs.Log>): Promise<void> {
+   *     // Send logs to the destination.
+   *   }
+   * }
+   *
+   * logs.addSink(new MySink(logs.Level.WARN));
+   * ```
+   */
+  export abstract class Sink {
+    /**
+     * Sink level threshold.
+     */
+    private [_level]: Level;
+
+    /**
+     * Sink level threshold. Logs with the lower level are not passed to the
+     * sink.
+     */
+    public get level(): Level {
+      return this[_level];
+    }
+
+    /**
+     * Sink level threshold.
+     * @param level Level threshold.
+     */
+    public set level(level: Level) {
+      this[_level] = level;
+    }
+
+    /**
+     * Class constructor.
+     * @param level Level threshold ({@link Level.TRACE} by default).
+     */
+    public constructor(level = Level.TRACE) {
+      this[_level] = level;
+    }
+
+    /**
+     * Returns true if a given log passes the sink level threshold, false
+     * otherwise.
+     * @param log Log to check.
+     */
+    public accepts(log: Log): boolean {
+      return log.level >= this[_level];
+    }
+
+    /**
+     * Writes logs to the sink destination. Thrown errors and rejections are
+     * isolated by the {@link logs.Buffer | `logs.Buffer`} and don't affect
+     * other sinks.
+     * @param logs Logs to write.
+     */
+    public abstract write(logs: Array<Log>): void | Promise<void>;
+  }
+}
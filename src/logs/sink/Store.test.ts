@@ -0,0 +1,75 @@
+/**
+ * @fileoverview StoreSink class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { tree } from "../../tree";
+import { logs } from "../index";
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+describe("StoreSink class", () => {
+  const logger = new logs.Logger("store", logs.Level.TRACE);
+  const getLog = (
+    value: string,
+    level = logs.Level.INFO,
+    thread: null | string = null,
+  ): logs.Log => {
+    return new logs.Log(logger, thread, logs.Type.string, level, value);
+  };
+
+  test("oldest logs are overwritten", () => {
+    const store = new logs.StoreSink(3);
+    const items = [getLog("1"), getLog("2"), getLog("3"), getLog("4")];
+    store.write(items.slice(0, 2));
+    expect(store.size).toEqual(2);
+    store.write(items.slice(2));
+    expect(store.size).toEqual(3);
+    expect(store.logs).toEqual(items.slice(1));
+    store.clear();
+    expect(store.logs).toEqual([]);
+  });
+
+  test("logs could be queried", () => {
+    const store = new logs.StoreSink(10);
+    const debug = getLog("debug", logs.Level.DEBUG, "t1");
+    const error = getLog("error", logs.Level.ERROR, "t1");
+    const other = getLog("other", logs.Level.ERROR, "t2");
+    store.write([debug, error, other]);
+    expect(store.query()).toEqual([debug, error, other]);
+    expect(store.query({ thread: "t1" })).toEqual([debug, error]);
+    expect(store.query({ level: logs.Level.ERROR })).toEqual([error, other]);
+    expect(store.query({ thread: "t1", level: logs.Level.ERROR })).toEqual([
+      error,
+    ]);
+    expect(store.query({ logger: "unknown" })).toEqual([]);
+    expect(store.query({ type: [logs.Type.string] }).length).toEqual(3);
+    expect(store.query({ type: logs.Type.error })).toEqual([]);
+    expect(store.query({ to: new Date(0) })).toEqual([]);
+    expect(store.query({ from: debug.timestamp }).length).toEqual(3);
+  });
+
+  test("object history is available", () => {
+    const store = new logs.StoreSink(1000);
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      store.write([log]);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+    const parent = new tree.Node();
+    const child = new tree.Node();
+    parent.insert(child);
+    const history = store.history(child);
+    expect(history.length).toBeGreaterThan(0);
+    expect(
+      history.filter((log) => log.logger.uid === parent.uid).length,
+    ).toEqual(1);
+    expect(store.history(child.uid)).toEqual(history);
+  });
+});
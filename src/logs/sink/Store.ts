@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Declaration of the StoreSink class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../../symbols";
+import { helpers } from "../helpers";
+import { level } from "../level";
+import { logger } from "../logger/Log";
+import { message } from "../message";
+import { logs } from "../Monitorable";
+import { sink as ns } from "./Sink";
+export namespace sink {
+  import Level = level.Level;
+  import Log = logger.Log;
+  import Type = message.Type;
+  import Monitorable = logs.Monitorable;
+  import Sink = ns.Sink;
+  import _buffer = symbolsNS._buffer;
+
+  /**
+   * Bounded in-memory logs store. Keeps the last `capacity` logs in the ring
+   * buffer (oldest logs are overwritten) and provides a query API over them.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * const store = new logs.StoreSink(10000);
+   * logs.addSink(store);
+   *
+   * // every error log of the thread
+   * store.query({ thread, level: logs.Level.ERROR });
+   *
+   * // what happened to the object
+   * store.history(node);
+   * ```
+   */
+  export class StoreSink extends Sink {
+    /**
+     * Ring buffer.
+     */
+    private [_buffer]: Array<Log>;
+
+    /**
+     * Index of the oldest log in the ring buffer.
+     */
+    private head = 0;
+
+    /**
+     * Number of the stored logs.
+     */
+    private count = 0;
+
+    /**
+     * Maximum number of the stored logs.
+     */
+    public readonly capacity: number;
+
+    /**
+     * Number of the stored logs.
+     */
+    public get size(): number {
+      return this.count;
+    }
+
+    /**
+     * Stored logs from the oldest to the newest.
+     */
+    public get logs(): Array<Log> {
+      const logs: Array<Log> = [];
+      for (let i = 0; i < this.count; i++) {
+        logs.push(this[_buffer][(this.head + i) % this.capacity]);
+      }
+      return logs;
+    }
+
+    /**
+     * Class constructor.
+     * @param capacity Maximum number of the stored logs.
+     * @param level Level threshold ({@link Level.TRACE} by default).
+     */
+    public constructor(capacity: number, level = Level.TRACE) {
+      super(level);
+      this.capacity = Math.max(1, Math.floor(capacity));
+      this[_buffer] = new Array<Log>(this.capacity);
+    }
+
+    /**
+     * @override
+     */
+    public write(logs: Array<Log>): void {
+      logs.forEach((log) => {
+        if (this.count < this.capacity) {
+          this[_buffer][(this.head + this.count) % this.capacity] = log;
+          this.count++;
+        } else {
+          this[_buffer][this.head] = log;
+          this.head = (this.head + 1) % this.capacity;
+        }
+      });
+    }
+
+    /**
+     * Returns stored logs matching all given criteria, from the oldest to the
+     * newest.
+     *
+     * @param filter Query criteria:
+     * @param filter.logger Logger (object) uid.
+     * @param filter.thread Thread uid.
+     * @param filter.type Message type or types.
+     * @param filter.level Minimal log level.
+     * @param filter.from Logs created not earlier than this moment.
+     * @param filter.to Logs created not later than this moment.
+     */
+    public query(
+      filter: {
+        logger?: string;
+        thread?: string;
+        type?: Type | Array<Type>;
+        level?: Level;
+        from?: Date;
+        to?: Date;
+      } = {},
+    ): Array<Log> {
+      const types =
+        filter.type === undefined
+          ? null
+          : Array.isArray(filter.type)
+          ? filter.type
+          : [filter.type];
+      return this.logs.filter((log) => {
+        return (
+          (filter.logger === undefined || log.logger.uid === filter.logger) &&
+          (filter.thread === undefined || log.thread === filter.thread) &&
+          (types === null || types.indexOf(log.type) !== -1) &&
+          (filter.level === undefined || log.level >= filter.level) &&
+          (filter.from === undefined ||
+            log.timestamp.getTime() >= filter.from.getTime()) &&
+          (filter.to === undefined ||
+            log.timestamp.getTime() <= filter.to.getTime())
+        );
+      });
+    }
+
+    /**
+     * Returns stored logs of a given object: logs populated by the object's
+     * logger and tree logs which refer to the object.
+     *
+     * @param object Monitorable object or its uid.
+     */
+    public history(object: Monitorable | string): Array<Log> {
+      const uid = typeof object === "string" ? object : object.uid;
+      return this.logs.filter((log) => helpers.isRelated(log, uid));
+    }
+
+    /**
+     * Removes all stored logs.
+     */
+    public clear(): void {
+      this[_buffer] = new Array<Log>(this.capacity);
+      this.head = 0;
+      this.count = 0;
+    }
+  }
+}
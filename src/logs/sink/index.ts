@@ -0,0 +1,27 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the sink namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { sink as ns0 } from "./Sink";
+import { sink as ns1 } from "./Console";
+import { sink as ns2 } from "./Memory";
+import { sink as ns3 } from "./File";
+import { sink as ns4 } from "./Store";
+import { sink as ns5 } from "./Pretty";
+
+/**
+ * Logs sinks namespace.
+ */
+export namespace sink {
+  export import Sink = ns0.Sink;
+  export import ConsoleSink = ns1.ConsoleSink;
+  export import MemorySink = ns2.MemorySink;
+  export import FileSink = ns3.FileSink;
+  export import StoreSink = ns4.StoreSink;
+  export import PrettySink = ns5.PrettySink;
+}
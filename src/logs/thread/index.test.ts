@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Log thread test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { symbolsNS } from "../../symbols";
+import { tree } from "../../tree";
+import { logs, logNS } from "../index";
+import { thread } from "./index";
+import construct = symbolsNS.construct;
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+describe("Nested log threads", () => {
+  const captured: Array<logs.Log> = [];
+
+  beforeAll(() => {
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      captured.push(log);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+  });
+
+  test("threads are stacked", () => {
+    expect(thread.uid()).toBeNull();
+    expect(thread.parent()).toBeNull();
+    const outer = thread.start();
+    expect(thread.uid()).toEqual(outer);
+    expect(thread.parent()).toBeNull();
+    const inner = thread.start();
+    expect(thread.uid()).toEqual(inner);
+    expect(thread.parent()).toEqual(outer);
+    expect(thread.depth()).toEqual(2);
+    thread.stop();
+    expect(thread.uid()).toEqual(outer);
+    thread.stop();
+    expect(thread.uid()).toBeNull();
+    expect(thread.depth()).toEqual(0);
+  });
+
+  test("inner thread doesn't break outer thread correlation", () => {
+    class Parent extends tree.Node {
+      protected [construct](): void {
+        super[construct]();
+        this.insert(new tree.Node());
+        this.logger.info("after insert");
+      }
+    }
+    const node = new Parent();
+    const own = captured.filter((log) => log.logger.uid === node.uid);
+    const outer = own[0].thread as string;
+    const inserted = own.find((log) => log.type === logs.Type.inserted);
+    const after = own.find((log) => log.message === "after insert");
+    expect(outer).not.toBeNull();
+    expect(own[0].parent).toBeNull();
+    expect((inserted as logs.Log).thread).not.toEqual(outer);
+    expect((inserted as logs.Log).parent).toEqual(outer);
+    expect((after as logs.Log).thread).toEqual(outer);
+    expect(thread.depth()).toEqual(0);
+  });
+
+  test("thread is stopped when node method throws", () => {
+    const node = new tree.Node();
+    expect(() => node.insert(new tree.Node(), new tree.Node())).toThrow();
+    expect(thread.depth()).toEqual(0);
+  });
+
+  test("thread is propagated across async boundaries", async () => {
+    const node = new tree.Node();
+    let thread: null | string = null;
+    let scheduled: Promise<void> = Promise.resolve();
+    node.listen("event", () => {
+      thread = logNS.thread.uid();
+      scheduled = new Promise((resolve) => {
+        setTimeout(() => {
+          node.logger.info("scheduled");
+          resolve();
+        }, 0);
+      });
+    });
+    node.dispatch("event");
+    await scheduled;
+    const log = captured.find((log) => log.message === "scheduled");
+    expect(thread).not.toBeNull();
+    expect((log as logs.Log).thread).toEqual(thread);
+  });
+
+  test("thread doesn't leak into awaited continuations", async () => {
+    const node = new tree.Node();
+    let scheduled: Promise<null | string> = Promise.resolve(null);
+    node.listen("event", () => {
+      scheduled = Promise.resolve().then(() => logNS.thread.uid());
+    });
+    node.dispatch("event");
+    node.insert(new tree.Node());
+    expect(await scheduled).not.toBeNull();
+    expect(thread.uid()).toBeNull();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(thread.uid()).toBeNull();
+  });
+
+  test("correlation identifiers are attached to the logs", async () => {
+    const node = new tree.Node();
+    await logs.runThread(
+      async () => {
+        expect(logs.correlate("user", "u1")).toBeTruthy();
+        await Promise.resolve();
+        node.insert(new tree.Node());
+      },
+      { request: "r1" },
+    );
+    const log = captured.find(
+      (log) => log.logger.uid === node.uid && log.type === logs.Type.inserted,
+    );
+    expect((log as logs.Log).correlation).toEqual({
+      request: "r1",
+      user: "u1",
+    });
+    expect(logs.correlate("user", "u2")).toBeFalsy();
+    expect(thread.ids()).toBeNull();
+  });
+});
@@ -5,29 +5,150 @@
  * @license Apache-2.0
  */
 
+import { AsyncLocalStorage } from "async_hooks";
 import { helpers } from "../helpers";
 import getUid = helpers.getUid;
 export namespace thread {
-  let thread: null | string = null;
+  /**
+   * Thread record.
+   */
+  type Thread = {
+    uid: string;
+    parent: null | Thread;
+    ids: null | { [key: string]: string };
+  };
+
+  /**
+   * Current thread storage. Thread started while another one is running is
+   * nested into it and refers it as a parent. Storage is propagated across
+   * the async boundaries (promises, timers, etc.), so async work scheduled
+   * in the thread is logged under the same thread.
+   */
+  const storage: AsyncLocalStorage<null | Thread> = new AsyncLocalStorage();
 
   /**
-   * Start thread.
+   * Returns current thread record.
    */
-  export const start = (): void => {
-    thread = getUid();
+  const current = (): null | Thread => {
+    return storage.getStore() || null;
   };
 
   /**
-   * Stop tread.
+   * Start thread. Returns started thread identifier.
+   *
+   * The thread is entered for the whole current execution context, so being
+   * called in the synchronous part of an async function it leaks into the
+   * caller's code until the matching {@link stop} is called. Use {@link run}
+   * to scope the thread to a callback.
+   */
+  export const start = (): string => {
+    const thread: Thread = { uid: getUid(), parent: current(), ids: null };
+    storage.enterWith(thread);
+    return thread.uid;
+  };
+
+  /**
+   * Stop tread. Restores parent thread as the current one in the current
+   * execution context only: continuations scheduled before the call stay in
+   * the stopped thread.
    */
   export const stop = (): void => {
-    thread = null;
+    const thread = current();
+    storage.enterWith(thread ? thread.parent : null);
   };
 
   /**
    * Returns current thread identifier.
    */
   export const uid = (): null | string => {
-    return thread;
+    const thread = current();
+    return thread ? thread.uid : null;
+  };
+
+  /**
+   * Returns parent thread identifier of the current thread.
+   */
+  export const parent = (): null | string => {
+    const thread = current();
+    return thread && thread.parent ? thread.parent.uid : null;
+  };
+
+  /**
+   * Returns number of the running nested threads.
+   */
+  export const depth = (): number => {
+    let depth = 0;
+    let thread = current();
+    while (thread) {
+      depth++;
+      thread = thread.parent;
+    }
+    return depth;
+  };
+
+  /**
+   * Runs `callback` in the new thread with the given correlation
+   * identifiers and returns its result. Async work scheduled by the
+   * `callback` stays in the thread.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * server.on("request", (req, res) => {
+   *   logs.runThread(async () => {
+   *     await handle(req, res);
+   *   }, { request: req.headers["x-request-id"] });
+   * });
+   * ```
+   *
+   * @param callback Function to run.
+   * @param ids Correlation identifiers.
+   */
+  export const run = <T>(
+    callback: () => T,
+    ids?: { [key: string]: string },
+  ): T => {
+    const thread: Thread = {
+      uid: getUid(),
+      parent: current(),
+      ids: ids ? { ...ids } : null,
+    };
+    return storage.run(thread, callback);
+  };
+
+  /**
+   * Attaches external correlation identifier (e.g. a request id) to the
+   * current thread. Identifier is inherited by the nested threads. Returns
+   * false if there is no current thread, true otherwise.
+   *
+   * @param key Identifier name.
+   * @param value Identifier value.
+   */
+  export const correlate = (key: string, value: string): boolean => {
+    const thread = current();
+    if (!thread) {
+      return false;
+    }
+    thread.ids = { ...thread.ids, [key]: value };
+    return true;
+  };
+
+  /**
+   * Returns correlation identifiers of the current thread including
+   * inherited from the parent threads, `null` if there is no one.
+   */
+  export const ids = (): null | { [key: string]: string } => {
+    const chain: Array<{ [key: string]: string }> = [];
+    let thread = current();
+    while (thread) {
+      if (thread.ids) {
+        chain.unshift(thread.ids);
+      }
+      thread = thread.parent;
+    }
+    return chain.length > 0
+      ? chain.reduce((ids, item) => ({ ...ids, ...item }), {})
+      : null;
   };
 }
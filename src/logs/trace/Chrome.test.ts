@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Chrome Trace Event exporter test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { logNS, logs } from "../index";
+import { tree } from "../../tree";
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+describe("Chrome Trace Event exporter", () => {
+  const logger = new logs.Logger("chrome", logs.Level.TRACE);
+  const root = "11111111-0000-0000-0000-000000000000";
+  const child = "22222222-0000-0000-0000-000000000000";
+  const captured = [
+    new logs.Log(
+      logger,
+      root,
+      logs.Type.called,
+      logs.Level.TRACE,
+      logs.getCalled("nodes", "Map", "set", ["key", 1]),
+    ),
+    new logs.Log(
+      logger,
+      child,
+      logs.Type.checkpoint,
+      logs.Level.DEBUG,
+      logs.getCheckpoint("loaded", "config"),
+      null,
+      root,
+    ),
+    new logs.Log(
+      logger,
+      child,
+      logs.Type.changed,
+      logs.Level.TRACE,
+      logs.getChanged("Node", "size", 2),
+      null,
+      root,
+    ),
+  ];
+
+  test("threads and checkpoints are converted to events", () => {
+    const json = logNS.trace.toChrome(captured);
+    expect(json.displayTimeUnit).toEqual("ms");
+    const [meta, parent, nestedMeta, nested, checkpoint] = json.traceEvents;
+    expect(json.traceEvents.length).toEqual(5);
+    expect(meta).toEqual({
+      name: "thread_name",
+      ph: "M",
+      pid: 1,
+      tid: 1,
+      args: { name: root },
+    });
+    expect(parent.ph).toEqual("X");
+    expect(parent.name).toEqual("Map.set");
+    expect(parent.ts).toEqual(captured[0].timestamp.getTime() * 1000);
+    expect(parent.args.calls).toEqual([
+      { method: "nodes.set", args: ["key", 1] },
+    ]);
+    expect(parent.tid).toEqual(1);
+    expect(nestedMeta).toEqual({
+      name: "thread_name",
+      ph: "M",
+      pid: 1,
+      tid: 2,
+      args: { name: child },
+    });
+    expect(nested.ph).toEqual("X");
+    expect(nested.tid).toEqual(2);
+    expect(nested.args.parent).toEqual(root);
+    expect(nested.args.changes).toEqual({ "Node.size": 2 });
+    expect(checkpoint).toEqual({
+      name: "loaded",
+      cat: "checkpoint",
+      ph: "i",
+      s: "t",
+      ts: captured[1].timestamp.getTime() * 1000,
+      pid: 1,
+      tid: 2,
+      args: { value: "config", logger: logger.uid },
+    });
+  });
+
+  test("trace could be written to a file", async () => {
+    const file = path.join(os.tmpdir(), `mdln-chrome-${process.pid}.json`);
+    await new logs.ChromeExporter(file).export(captured);
+    const json = JSON.parse(
+      await fs.promises.readFile(file, "utf8"),
+    ) as logNS.trace.ChromeJSON;
+    await fs.promises.unlink(file);
+    expect(json.traceEvents.length).toEqual(5);
+  });
+
+  test("real objects operations are named after their threads", () => {
+    const set: Set<logs.Log> = new Set();
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation((log) => {
+      set.add(log);
+      return Promise.resolve(true);
+    });
+    logs.setBuffer(buffer);
+    const root = new tree.Node();
+    const child = new tree.Node();
+    root.insert(child);
+    const listener = () => undefined;
+    root.listen("change", listener);
+    root.dispatch("change");
+    root.destructor();
+    const names = logNS.trace
+      .toChrome(set)
+      .traceEvents.filter((event) => event.ph === "X")
+      .map((event) => event.name);
+    expect(names).toEqual([
+      "construct",
+      "construct",
+      "insert",
+      "listen",
+      "dispatch",
+      "destruct",
+      "destruct",
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Declaration of the Chrome Trace Event format exporter.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import * as fs from "fs";
+import { logger } from "../logger/Log";
+import { message } from "../message";
+import { trace as ns } from "./Span";
+export namespace trace {
+  import Log = logger.Log;
+  import Type = message.Type;
+  import ValueJSON = message.ValueJSON;
+  import Changed = message.Changed;
+  import Called = message.Called;
+  import Checkpoint = message.Checkpoint;
+  import encode = message.encode;
+  import Span = ns.Span;
+  import collect = ns.collect;
+
+  /**
+   * Chrome Trace Event format event.
+   */
+  export interface ChromeEvent {
+    name: string;
+    cat?: string;
+    ph: "X" | "i" | "M";
+    ts?: number;
+    dur?: number;
+    s?: "t";
+    pid: number;
+    tid: number;
+    args: { [key: string]: unknown };
+  }
+
+  /**
+   * Chrome Trace Event format (JSON object format) trace.
+   */
+  export interface ChromeJSON {
+    traceEvents: Array<ChromeEvent>;
+    displayTimeUnit: "ms";
+  }
+
+  /**
+   * Process identifier of the trace events.
+   */
+  const PID = 1;
+
+  /**
+   * Returns trace timestamp (microseconds) of the date.
+   * @param date Date to convert.
+   */
+  const micros = (date: Date): number => date.getTime() * 1000;
+
+  /**
+   * Returns duration event args: thread identifiers, called methods and
+   * changed attributes of the span.
+   * @param span Thread span.
+   */
+  const args = (span: Span): { [key: string]: unknown } => {
+    const calls: Array<{ method: string; args: Array<ValueJSON> }> = [];
+    const changes: { [key: string]: ValueJSON } = {};
+    span.logs.forEach((log) => {
+      if (log.type === Type.called) {
+        const msg = log.message as Called;
+        calls.push({
+          method: `${msg.name}.${msg.method}`,
+          args: msg.args.map(encode),
+        });
+      } else if (log.type === Type.changed) {
+        const msg = log.message as Changed;
+        changes[`${msg.namespace}.${msg.attribute}`] = encode(msg.value);
+      }
+    });
+    const result: { [key: string]: unknown } = {
+      thread: span.thread,
+      parent: span.parent,
+      logger: span.logger,
+    };
+    if (span.correlation) {
+      result.correlation = span.correlation;
+    }
+    if (calls.length) {
+      result.calls = calls;
+    }
+    if (Object.keys(changes).length) {
+      result.changes = changes;
+    }
+    return result;
+  };
+
+  /**
+   * Returns Chrome Trace Event format trace for the threads of a given logs
+   * stream. Each thread is a duration event on its own track named after the
+   * thread, each `Checkpoint` log is an instant event on the track of its
+   * thread. Nested threads refer their parent threads in the event args.
+   * @param logs Logs stream.
+   */
+  export const toChrome = (logs: Iterable<Log>): ChromeJSON => {
+    const spans = collect(logs);
+    const events: Array<ChromeEvent> = [];
+    spans.forEach((span, index) => {
+      const tid = index + 1;
+      events.push({
+        name: "thread_name",
+        ph: "M",
+        pid: PID,
+        tid,
+        args: { name: span.thread },
+      });
+      events.push({
+        name: span.name,
+        cat: "thread",
+        ph: "X",
+        ts: micros(span.start),
+        dur: micros(span.end) - micros(span.start),
+        pid: PID,
+        tid,
+        args: args(span),
+      });
+      span.checkpoints.forEach((log) => {
+        const msg = log.message as Checkpoint;
+        events.push({
+          name: msg.name,
+          cat: "checkpoint",
+          ph: "i",
+          s: "t",
+          ts: micros(log.timestamp),
+          pid: PID,
+          tid,
+          args: { value: msg.value, logger: log.logger.uid },
+        });
+      });
+    });
+    return { traceEvents: events, displayTimeUnit: "ms" };
+  };
+
+  /**
+   * Exporter of the logs threads to the Chrome Trace Event format file which
+   * could be opened in `chrome://tracing` or Perfetto.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * const store = new logs.StoreSink(10000);
+   * logs.addSink(store);
+   * // ...
+   * await logs.flush();
+   * await new logs.ChromeExporter("trace.json").export(store.logs);
+   * ```
+   */
+  export class ChromeExporter {
+    /**
+     * Output file path.
+     */
+    readonly file: string;
+
+    /**
+     * Class constructor.
+     * @param file Output file path.
+     */
+    constructor(file: string) {
+      this.file = file;
+    }
+
+    /**
+     * Exports threads of a given logs stream.
+     * @param logs Logs stream.
+     */
+    async export(logs: Iterable<Log>): Promise<void> {
+      await fs.promises.writeFile(this.file, JSON.stringify(toChrome(logs)));
+    }
+  }
+}
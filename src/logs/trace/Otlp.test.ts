@@ -0,0 +1,138 @@
+/**
+ * @fileoverview OTLP exporter test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { logNS, logs } from "../index";
+
+describe("OTLP exporter", () => {
+  const logger = new logs.Logger("otlp", logs.Level.TRACE);
+  const root = "11111111-0000-0000-0000-000000000000";
+  const child = "22222222-0000-0000-0000-000000000000";
+  const captured = [
+    new logs.Log(
+      logger,
+      root,
+      logs.Type.called,
+      logs.Level.TRACE,
+      logs.getCalled("nodes", "Map", "set", ["key", 1]),
+    ),
+    new logs.Log(
+      logger,
+      child,
+      logs.Type.checkpoint,
+      logs.Level.DEBUG,
+      logs.getCheckpoint("loaded", "config"),
+      null,
+      root,
+      { request: "req-1" },
+    ),
+    new logs.Log(
+      logger,
+      child,
+      logs.Type.changed,
+      logs.Level.TRACE,
+      logs.getChanged("Node", "size", 2),
+      null,
+      root,
+    ),
+    new logs.Log(logger, null, logs.Type.string, logs.Level.INFO, "skipped"),
+  ];
+
+  test("threads are converted to spans", () => {
+    const json = logNS.trace.toOtlp(captured, "service");
+    const resource = json.resourceSpans[0];
+    expect(resource.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "service" } },
+    ]);
+    const spans = resource.scopeSpans[0].spans;
+    expect(spans.length).toEqual(2);
+    const [parent, nested] = spans;
+    expect(parent.name).toEqual("Map.set");
+    expect(parent.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(parent.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(parent.parentSpanId).toBeUndefined();
+    expect(parent.attributes).toContainEqual({
+      key: "mdln.logger",
+      value: { stringValue: logger.uid },
+    });
+    expect(parent.attributes).toContainEqual({
+      key: "mdln.args",
+      value: {
+        arrayValue: { values: [{ stringValue: "key" }, { intValue: "1" }] },
+      },
+    });
+    expect(nested.traceId).toEqual(parent.traceId);
+    expect(nested.parentSpanId).toEqual(parent.spanId);
+    expect(nested.name).toEqual("loaded");
+    expect(nested.attributes).toContainEqual({
+      key: "mdln.correlation.request",
+      value: { stringValue: "req-1" },
+    });
+    expect(nested.attributes).toContainEqual({
+      key: "Node.size",
+      value: { intValue: "2" },
+    });
+    expect(nested.events).toEqual([
+      {
+        timeUnixNano: `${captured[1].timestamp.getTime()}000000`,
+        name: "loaded",
+        attributes: [{ key: "value", value: { stringValue: "config" } }],
+      },
+    ]);
+  });
+
+  test("spans could be written to a file", async () => {
+    const file = path.join(os.tmpdir(), `mdln-otlp-${process.pid}.json`);
+    await new logs.OtlpExporter({ file }).export(captured);
+    const json = JSON.parse(
+      await fs.promises.readFile(file, "utf8"),
+    ) as logNS.trace.OtlpJSON;
+    await fs.promises.unlink(file);
+    expect(json.resourceSpans[0].scopeSpans[0].spans.length).toEqual(2);
+  });
+
+  test("spans could be sent to a collector", async () => {
+    const bodies: Array<string> = [];
+    let status = 200;
+    const server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk: Buffer) => (body += chunk.toString()));
+      req.on("end", () => {
+        bodies.push(body);
+        res.statusCode = status;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as { port: number };
+    const exporter = new logs.OtlpExporter({
+      endpoint: `http://127.0.0.1:${port}/v1/traces`,
+    });
+    await exporter.export(captured);
+    expect(bodies.length).toEqual(1);
+    status = 500;
+    await expect(exporter.export(captured)).rejects.toThrow("mln-10");
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("collector request is aborted on timeout", async () => {
+    const server = http.createServer(() => {
+      // never responds
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as { port: number };
+    const exporter = new logs.OtlpExporter({
+      endpoint: `http://127.0.0.1:${port}/v1/traces`,
+      timeout: 50,
+    });
+    await expect(exporter.export(captured)).rejects.toThrow("mln-10");
+    await new Promise((resolve) => server.close(resolve));
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * @fileoverview Declaration of the OpenTelemetry (OTLP/JSON) spans exporter.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import { URL } from "url";
+import { errors } from "../../errors";
+import { logger } from "../logger/Log";
+import { message } from "../message";
+import { trace as ns } from "./Span";
+export namespace trace {
+  import Log = logger.Log;
+  import Type = message.Type;
+  import Value = message.Value;
+  import Changed = message.Changed;
+  import Called = message.Called;
+  import Checkpoint = message.Checkpoint;
+  import ErrorLog = message.ErrorLog;
+  import Span = ns.Span;
+  import collect = ns.collect;
+
+  /**
+   * OTLP/JSON attribute value.
+   */
+  export type OtlpValue =
+    | Record<string, never>
+    | { stringValue: string }
+    | { boolValue: boolean }
+    | { intValue: string }
+    | { doubleValue: number }
+    | { arrayValue: { values: Array<OtlpValue> } };
+
+  /**
+   * OTLP/JSON key-value attribute.
+   */
+  export interface OtlpAttribute {
+    key: string;
+    value: OtlpValue;
+  }
+
+  /**
+   * OTLP/JSON span.
+   */
+  export interface OtlpSpan {
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    name: string;
+    kind: number;
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: Array<OtlpAttribute>;
+    events: Array<{
+      timeUnixNano: string;
+      name: string;
+      attributes: Array<OtlpAttribute>;
+    }>;
+    status: { code: number; message?: string };
+  }
+
+  /**
+   * OTLP/JSON export request (`ExportTraceServiceRequest`).
+   */
+  export interface OtlpJSON {
+    resourceSpans: Array<{
+      resource: { attributes: Array<OtlpAttribute> };
+      scopeSpans: Array<{
+        scope: { name: string };
+        spans: Array<OtlpSpan>;
+      }>;
+    }>;
+  }
+
+  /**
+   * `SPAN_KIND_INTERNAL` span kind.
+   */
+  const KIND_INTERNAL = 1;
+
+  /**
+   * `STATUS_CODE_UNSET` and `STATUS_CODE_ERROR` span status codes.
+   */
+  const STATUS_UNSET = 0;
+  const STATUS_ERROR = 2;
+
+  /**
+   * Returns hex identifier of a given length derived from the uid.
+   * @param uid Thread uid.
+   * @param length Identifier length.
+   */
+  const hex = (uid: string, length: number): string => {
+    return crypto
+      .createHash("sha256")
+      .update(uid)
+      .digest("hex")
+      .slice(0, length);
+  };
+
+  /**
+   * Returns OTLP/JSON representation of the timestamp.
+   * @param date Timestamp.
+   */
+  const nanos = (date: Date): string => `${date.getTime()}000000`;
+
+  /**
+   * Returns OTLP/JSON representation of the log message value.
+   * @param val Value to encode.
+   */
+  const value = (val: Value): OtlpValue => {
+    if (val === undefined || val === null) {
+      return {};
+    } else if (val instanceof Date) {
+      return { stringValue: val.toISOString() };
+    } else if (typeof val === "boolean") {
+      return { boolValue: val };
+    } else if (typeof val === "number") {
+      return Number.isInteger(val)
+        ? { intValue: String(val) }
+        : { doubleValue: val };
+    } else {
+      return { stringValue: val };
+    }
+  };
+
+  /**
+   * Returns OTLP/JSON attribute.
+   * @param key Attribute key.
+   * @param val Attribute value.
+   */
+  const attribute = (key: string, val: Value): OtlpAttribute => {
+    return { key, value: value(val) };
+  };
+
+  /**
+   * Returns OTLP/JSON span of the thread.
+   * @param span Thread span.
+   * @param traceId Trace identifier.
+   * @param parent Whether parent thread span is known.
+   */
+  const toSpan = (span: Span, traceId: string, parent: boolean): OtlpSpan => {
+    const attributes: Map<string, OtlpAttribute> = new Map();
+    const add = (key: string, val: Value) => {
+      attributes.set(key, attribute(key, val));
+    };
+    add("mdln.logger", span.logger);
+    add("mdln.thread", span.thread);
+    if (span.parent !== null) {
+      add("mdln.parent", span.parent);
+    }
+    const correlation = span.correlation || {};
+    Object.keys(correlation).forEach((key) => {
+      add(`mdln.correlation.${key}`, correlation[key]);
+    });
+    const first = span.logs[0];
+    if (first.type === Type.called) {
+      const msg = first.message as Called;
+      add("code.namespace", msg.type);
+      add("code.function", msg.method);
+      attributes.set("mdln.args", {
+        key: "mdln.args",
+        value: { arrayValue: { values: msg.args.map(value) } },
+      });
+    }
+    const events: OtlpSpan["events"] = [];
+    let status: OtlpSpan["status"] = { code: STATUS_UNSET };
+    span.logs.forEach((log) => {
+      if (log.type === Type.changed) {
+        const msg = log.message as Changed;
+        add(`${msg.namespace}.${msg.attribute}`, msg.value);
+      } else if (log.type === Type.checkpoint) {
+        const msg = log.message as Checkpoint;
+        events.push({
+          timeUnixNano: nanos(log.timestamp),
+          name: msg.name,
+          attributes: [attribute("value", msg.value)],
+        });
+      } else if (log.type === Type.error) {
+        const msg = log.message as ErrorLog;
+        events.push({
+          timeUnixNano: nanos(log.timestamp),
+          name: "exception",
+          attributes: [
+            attribute("exception.type", String(msg.code)),
+            attribute("exception.message", msg.message),
+          ],
+        });
+        status = { code: STATUS_ERROR, message: msg.message };
+      }
+    });
+    const result: OtlpSpan = {
+      traceId,
+      spanId: hex(span.thread, 16),
+      name: span.name,
+      kind: KIND_INTERNAL,
+      startTimeUnixNano: nanos(span.start),
+      endTimeUnixNano: nanos(span.end),
+      attributes: [...attributes.values()],
+      events,
+      status,
+    };
+    if (parent && span.parent !== null) {
+      result.parentSpanId = hex(span.parent, 16);
+    }
+    return result;
+  };
+
+  /**
+   * Returns OTLP/JSON export request for the threads of a given logs stream.
+   * Nested threads share the trace of their root thread. Threads which parent
+   * is missed in the stream refer it as a root, but have no parent span.
+   * @param logs Logs stream.
+   * @param service Service name resource attribute.
+   */
+  export const toOtlp = (logs: Iterable<Log>, service = "mdln"): OtlpJSON => {
+    const spans = collect(logs);
+    const threads: Map<string, Span> = new Map();
+    spans.forEach((span) => threads.set(span.thread, span));
+    const root = (span: Span): string => {
+      let current = span;
+      while (current.parent !== null) {
+        const parent = threads.get(current.parent);
+        if (!parent) {
+          return current.parent;
+        }
+        current = parent;
+      }
+      return current.thread;
+    };
+    return {
+      resourceSpans: [
+        {
+          resource: { attributes: [attribute("service.name", service)] },
+          scopeSpans: [
+            {
+              scope: { name: "mdln" },
+              spans: spans.map((span) =>
+                toSpan(
+                  span,
+                  hex(root(span), 32),
+                  span.parent !== null && threads.has(span.parent),
+                ),
+              ),
+            },
+          ],
+        },
+      ],
+    };
+  };
+
+  /**
+   * Exporter of the logs threads as OpenTelemetry spans in the OTLP/JSON
+   * format. Spans are written to a file or sent to the OTLP/HTTP collector.
+   *
+   * @example
+   * ```typescript
+   * import { logs } from "mdln";
+   *
+   * const store = new logs.StoreSink(10000);
+   * logs.addSink(store);
+   * // ...
+   * await logs.flush();
+   * await new logs.OtlpExporter({
+   *   endpoint: "http://localhost:4318/v1/traces",
+   * }).export(store.logs);
+   * ```
+   */
+  export class OtlpExporter {
+    /**
+     * Service name.
+     */
+    readonly service: string;
+
+    /**
+     * Output file path.
+     */
+    readonly file: null | string;
+
+    /**
+     * Collector endpoint URL.
+     */
+    readonly endpoint: null | string;
+
+    /**
+     * Collector request headers.
+     */
+    readonly headers: { [name: string]: string };
+
+    /**
+     * Collector request timeout in ms.
+     */
+    readonly timeout: number;
+
+    /**
+     * Class constructor. Spans are written to the `file` if it's specified,
+     * or sent to the `endpoint` otherwise.
+     * @param options Exporter options:
+     * @param options.service Service name (`mdln` by default).
+     * @param options.file Output file path.
+     * @param options.endpoint Collector endpoint URL
+     * (`http://localhost:4318/v1/traces` by default).
+     * @param options.headers Collector request headers.
+     * @param options.timeout Collector request timeout in ms (10000 by
+     * default).
+     */
+    constructor(
+      options: {
+        service?: string;
+        file?: string;
+        endpoint?: string;
+        headers?: { [name: string]: string };
+        timeout?: number;
+      } = {},
+    ) {
+      this.service = options.service || "mdln";
+      this.file = options.file || null;
+      this.endpoint = this.file
+        ? null
+        : options.endpoint || "http://localhost:4318/v1/traces";
+      this.headers = options.headers || {};
+      this.timeout = options.timeout || 10000;
+    }
+
+    /**
+     * Exports threads of a given logs stream.
+     * @param logs Logs stream.
+     */
+    async export(logs: Iterable<Log>): Promise<void> {
+      const body = JSON.stringify(toOtlp(logs, this.service));
+      if (this.file) {
+        await fs.promises.writeFile(this.file, body);
+      } else {
+        await this.post(this.endpoint as string, body);
+      }
+    }
+
+    /**
+     * Sends request body to the collector.
+     * @param endpoint Collector endpoint URL.
+     * @param body Request body.
+     */
+    private post(endpoint: string, body: string): Promise<void> {
+      const url = new URL(endpoint);
+      const request = url.protocol === "https:" ? https.request : http.request;
+      return new Promise((resolve, reject) => {
+        const req = request(
+          url,
+          {
+            method: "POST",
+            headers: {
+              ...this.headers,
+              "Content-Type": "application/json",
+              "Content-Length": String(Buffer.byteLength(body)),
+            },
+          },
+          (res) => {
+            res.resume();
+            res.on("end", () => {
+              const status = res.statusCode || 0;
+              if (status >= 200 && status < 300) {
+                resolve();
+              } else {
+                reject(
+                  new errors.Error(
+                    errors.Code.TRACE_EXPORT,
+                    errors.Description.TRACE_EXPORT,
+                  ),
+                );
+              }
+            });
+          },
+        );
+        req.setTimeout(this.timeout, () => {
+          req.destroy(
+            new errors.Error(
+              errors.Code.TRACE_EXPORT,
+              errors.Description.TRACE_EXPORT,
+            ),
+          );
+        });
+        req.on("error", reject);
+        req.end(body);
+      });
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Declaration of the Span class.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { logger } from "../logger/Log";
+import { message } from "../message";
+export namespace trace {
+  import Log = logger.Log;
+  import Type = message.Type;
+  import Called = message.Called;
+  import Checkpoint = message.Checkpoint;
+
+  /**
+   * Logs thread represented as a span: an operation that starts with the
+   * first log of the thread and ends with the last one. Spans are nested
+   * according to the threads nesting.
+   */
+  export class Span {
+    /**
+     * Thread uid.
+     */
+    thread: string;
+
+    /**
+     * Parent thread uid, `null` for the root thread.
+     */
+    parent: null | string;
+
+    /**
+     * Logs of the thread in the order of their appearance.
+     */
+    logs: Array<Log> = [];
+
+    /**
+     * Class constructor.
+     * @param thread Thread uid.
+     * @param parent Parent thread uid.
+     */
+    constructor(thread: string, parent: null | string) {
+      this.thread = thread;
+      this.parent = parent;
+    }
+
+    /**
+     * Span name: called method name if the thread starts with the method
+     * call, the name of the first checkpoint (threads of the `mdln`-objects
+     * operations start with the checkpoint named after the operation, e.g.
+     * `construct` or `insert`), or the type of the first log.
+     */
+    get name(): string {
+      const first = this.logs[0];
+      if (first.type === Type.called) {
+        const msg = first.message as Called;
+        return `${msg.type}.${msg.method}`;
+      }
+      const checkpoint = this.logs.find((log) => log.type === Type.checkpoint);
+      if (checkpoint) {
+        return (checkpoint.message as Checkpoint).name;
+      }
+      return first.type;
+    }
+
+    /**
+     * Uid of the logger (object) which started the thread.
+     */
+    get logger(): string {
+      return this.logs[0].logger.uid;
+    }
+
+    /**
+     * Span start moment.
+     */
+    get start(): Date {
+      return this.logs[0].timestamp;
+    }
+
+    /**
+     * Span end moment.
+     */
+    get end(): Date {
+      return this.logs[this.logs.length - 1].timestamp;
+    }
+
+    /**
+     * External correlation ids of the thread.
+     */
+    get correlation(): null | { [key: string]: string } {
+      return this.logs[0].correlation;
+    }
+
+    /**
+     * Checkpoint logs of the thread (span events).
+     */
+    get checkpoints(): Array<Log> {
+      return this.logs.filter((log) => log.type === Type.checkpoint);
+    }
+  }
+
+  /**
+   * Returns spans collected from a given logs stream, ordered by their start.
+   * Logs without thread are skipped.
+   * @param logs Logs stream.
+   */
+  export const collect = (logs: Iterable<Log>): Array<Span> => {
+    const spans: Map<string, Span> = new Map();
+    for (const log of logs) {
+      if (log.thread === null) {
+        continue;
+      }
+      let span = spans.get(log.thread);
+      if (!span) {
+        span = new Span(log.thread, log.parent);
+        spans.set(log.thread, span);
+      }
+      span.logs.push(log);
+    }
+    return [...spans.values()].sort(
+      (a, b) => a.start.getTime() - b.start.getTime(),
+    );
+  };
+}
@@ -0,0 +1,30 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+/**
+ * @fileoverview Declaration of the trace namespace.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import { trace as ns0 } from "./Span";
+import { trace as ns1 } from "./Otlp";
+import { trace as ns2 } from "./Chrome";
+
+/**
+ * Logs threads tracing namespace.
+ */
+export namespace trace {
+  export import Span = ns0.Span;
+  export import collect = ns0.collect;
+  export import OtlpJSON = ns1.OtlpJSON;
+  export import OtlpSpan = ns1.OtlpSpan;
+  export import OtlpAttribute = ns1.OtlpAttribute;
+  export import OtlpValue = ns1.OtlpValue;
+  export import toOtlp = ns1.toOtlp;
+  export import OtlpExporter = ns1.OtlpExporter;
+  export import ChromeEvent = ns2.ChromeEvent;
+  export import ChromeJSON = ns2.ChromeJSON;
+  export import toChrome = ns2.toChrome;
+  export import ChromeExporter = ns2.ChromeExporter;
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Symbols namespace test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vm from "vm";
+
+describe("Disposal symbols", () => {
+  /**
+   * Returns context of a fresh realm with the symbols module loaded. Realm
+   * lacks the explicit resource management symbols.
+   * @param setup Script to run before loading.
+   */
+  const load = (setup: string): vm.Context => {
+    const context = vm.createContext({ exports: {} });
+    vm.runInContext(setup, context);
+    vm.runInContext(
+      fs.readFileSync(path.resolve(__dirname, "index.js"), "utf8"),
+      context,
+    );
+    return context;
+  };
+
+  test("runtime well-known symbols are used", () => {
+    const context = load(`
+      Symbol.dispose = Symbol("Symbol.dispose");
+      Symbol.asyncDispose = Symbol("Symbol.asyncDispose");
+    `);
+    expect(
+      vm.runInContext(
+        `[
+          exports.symbols.dispose === Symbol.dispose,
+          exports.symbols.asyncDispose === Symbol.asyncDispose,
+        ]`,
+        context,
+      ),
+    ).toEqual([true, true]);
+  });
+
+  test("registered substitutes are used for missed well-known symbols", () => {
+    const context = load("");
+    expect(vm.runInContext("typeof Symbol.dispose", context)).toEqual(
+      "undefined",
+    );
+    expect(vm.runInContext("exports.symbols.dispose", context)).toBe(
+      Symbol.for("Symbol.dispose"),
+    );
+    expect(vm.runInContext("exports.symbols.asyncDispose", context)).toBe(
+      Symbol.for("Symbol.asyncDispose"),
+    );
+  });
+});
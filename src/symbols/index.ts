@@ -5,12 +5,46 @@
  * @license Apache-2.0
  */
 
+/**
+ * Types of the `Symbol.dispose` and `Symbol.asyncDispose` well-known symbols
+ * (the runtime and the TypeScript lib may lack them).
+ */
+declare const Dispose: unique symbol;
+declare const AsyncDispose: unique symbol;
+
+/**
+ * Returns well-known symbol of a given name or its registered substitute
+ * (`Symbol.for("Symbol.<name>")`) if the runtime lacks it. The global `Symbol`
+ * is never modified: applications which polyfill it must load the polyfill
+ * before `mdln` or install the same registered substitute
+ * (`Symbol.dispose ??= Symbol.for("Symbol.dispose")`), so the `using`
+ * declarations find the symbolic methods.
+ * @param name Well-known symbol name.
+ */
+const getWellKnown = (name: "dispose" | "asyncDispose"): symbol => {
+  const wellKnown = (Symbol as unknown as { [name: string]: unknown })[name];
+  return typeof wellKnown === "symbol"
+    ? wellKnown
+    : Symbol.for(`Symbol.${name}`);
+};
+
 /**
  * Index symbols namespace.
  */
 export namespace symbolsNS {
   export const construct = Symbol("construct");
   export const destruct = Symbol("destruct");
+  export const constructAsync = Symbol("constructAsync");
+  export const destructAsync = Symbol("destructAsync");
+  export const destructNestedAsync = Symbol("destructNestedAsync");
+  export const redact = Symbol("redact");
+  export const reset = Symbol("reset");
+  export const dispose: typeof Dispose = getWellKnown(
+    "dispose",
+  ) as typeof Dispose;
+  export const asyncDispose: typeof AsyncDispose = getWellKnown(
+    "asyncDispose",
+  ) as typeof AsyncDispose;
   export const sync = Symbol("sync");
   export const _constructing = Symbol("_constructing");
   export const _constructed = Symbol("_constructed");
@@ -30,6 +64,27 @@ export namespace symbolsNS {
   export const _errors = Symbol("_errors");
   export const _debouncer = Symbol("_debouncer");
   export const _code = Symbol("_code");
+  export const _sinks = Symbol("_sinks");
+  export const _failures = Symbol("_failures");
+  export const _parent = Symbol("_parent");
+  export const _correlation = Symbol("_correlation");
+  export const _dropped = Symbol("_dropped");
+  export const _bytes = Symbol("_bytes");
+  export const _maxBytes = Symbol("_maxBytes");
+  export const _blocked = Symbol("_blocked");
+  export const _scheduled = Symbol("_scheduled");
+  export const _release = Symbol("_release");
+  export const _ready = Symbol("_ready");
+  export const _destructAsync = Symbol("_destructAsync");
+  export const _destructFailure = Symbol("_destructFailure");
+  export const _name = Symbol("_name");
+  export const _providers = Symbol("_providers");
+  export const _instances = Symbol("_instances");
+  export const _owned = Symbol("_owned");
+  export const _scopes = Symbol("_scopes");
+  export const _free = Symbol("_free");
+  export const _hits = Symbol("_hits");
+  export const _misses = Symbol("_misses");
 }
 
 /**
@@ -48,6 +103,51 @@ export namespace symbols {
    */
   export const destruct = symbolsNS.destruct;
 
+  /**
+   * Symbol to get access to the protected symbolic
+   * {@link [constructAsync] | `Monitorable[constructAsync]`} method.
+   */
+  export const constructAsync = symbolsNS.constructAsync;
+
+  /**
+   * Symbol to get access to the protected symbolic
+   * {@link [destructAsync] | `Monitorable[destructAsync]`} method.
+   */
+  export const destructAsync = symbolsNS.destructAsync;
+
+  /**
+   * Symbol to get access to the protected symbolic
+   * {@link [destructNestedAsync] | `Monitorable[destructNestedAsync]`}
+   * method.
+   */
+  export const destructNestedAsync = symbolsNS.destructNestedAsync;
+
+  /**
+   * Symbol to get access to the protected symbolic
+   * {@link [redact] | `Monitorable[redact]`} method.
+   */
+  export const redact = symbolsNS.redact;
+
+  /**
+   * Symbol to get access to the protected symbolic
+   * {@link [reset] | `Monitorable[reset]`} method.
+   */
+  export const reset = symbolsNS.reset;
+
+  /**
+   * `Symbol.dispose` used by the `using` declarations, or its registered
+   * substitute `Symbol.for("Symbol.dispose")` if the runtime doesn't define
+   * it when `mdln` is loaded.
+   */
+  export const dispose = symbolsNS.dispose;
+
+  /**
+   * `Symbol.asyncDispose` used by the `await using` declarations, or its
+   * registered substitute `Symbol.for("Symbol.asyncDispose")` if the runtime
+   * doesn't define it when `mdln` is loaded.
+   */
+  export const asyncDispose = symbolsNS.asyncDispose;
+
   /**
    * Symbol to get access to the protected symbolic
    * {@link [sync] | `logger.Buffer[sync]`} method.
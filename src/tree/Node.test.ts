@@ -0,0 +1,371 @@
+/**
+ * @fileoverview Node class test suite definition.
+ * @author Artem Lytvynov
+ * @copyright Artem Lytvynov
+ * @license Apache-2.0
+ */
+
+import * as util from "util";
+import { symbolsNS } from "../symbols";
+import { errors } from "../errors";
+import { logs, logNS } from "../logs";
+import { tree } from "./index";
+import destruct = symbolsNS.destruct;
+import destructAsync = symbolsNS.destructAsync;
+
+/**
+ * Logs buffer class for tests.
+ */
+class TestBuffer extends logs.Buffer {}
+
+describe("Node asynchronous destruct", () => {
+  const order: Array<string> = [];
+
+  /**
+   * Node child class with asynchronous destruct phase.
+   */
+  class AsyncNode extends tree.Node {
+    /**
+     * Node name.
+     */
+    public name = "";
+
+    /**
+     * Error to reject asynchronous destruct with.
+     */
+    public failure: null | Error = null;
+
+    /**
+     * Asynchronous destruct duration, ms.
+     */
+    public delay = 1;
+
+    /**
+     * @override
+     */
+    protected async [destructAsync](timeout: number) {
+      await super[destructAsync](timeout);
+      await new Promise((resolve) => setTimeout(resolve, this.delay));
+      order.push(this.name);
+      if (this.failure) {
+        throw this.failure;
+      }
+    }
+  }
+
+  const getNode = (name: string): AsyncNode => {
+    const node = new AsyncNode();
+    node.name = name;
+    return node;
+  };
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+  });
+
+  beforeEach(() => {
+    order.length = 0;
+  });
+
+  test("children are destructed in reverse order", async () => {
+    const root = getNode("root");
+    const a = root.insert(getNode("a")) as AsyncNode;
+    root.insert(getNode("b"));
+    a.insert(getNode("a1"));
+    await root.destructorAsync();
+    expect(order).toEqual(["b", "a1", "a", "root"]);
+    expect(root.destructed).toBeTruthy();
+    expect(a.destructed).toBeTruthy();
+  });
+
+  test("children failures are aggregated", async () => {
+    const root = getNode("root");
+    const a = root.insert(getNode("a")) as AsyncNode;
+    const b = root.insert(getNode("b")) as AsyncNode;
+    const c = root.insert(getNode("c")) as AsyncNode;
+    a.failure = new Error("a");
+    c.failure = new Error("c");
+    let error: unknown = null;
+    try {
+      await root.destructorAsync();
+    } catch (err) {
+      error = err;
+    }
+    expect(error instanceof errors.AggregateError).toBeTruthy();
+    expect((error as errors.AggregateError).errors).toEqual([
+      c.failure,
+      a.failure,
+    ]);
+    // root's own cleanup runs after the children anyway
+    expect(order).toEqual(["c", "b", "a", "root"]);
+    [root, a, b, c].forEach((node) => {
+      expect(node.destructed).toBeTruthy();
+      expect(logNS.undestructed.has(node.uid)).toBeFalsy();
+    });
+  });
+
+  test("timeout is applied to each node separately", async () => {
+    const root = getNode("root");
+    const children = [getNode("a"), getNode("b"), getNode("c")];
+    children.forEach((child) => {
+      child.delay = 60;
+      root.insert(child);
+    });
+    await root.destructorAsync(100);
+    expect(order).toEqual(["c", "b", "a", "root"]);
+    [root, ...children].forEach((node) => {
+      expect(node.destructed).toBeTruthy();
+    });
+  });
+
+  test("node's own cleanup is limited by the timeout", async () => {
+    const root = getNode("root");
+    const child = root.insert(getNode("a")) as AsyncNode;
+    root.delay = 200;
+    await expect(root.destructorAsync(50)).rejects.toThrow(
+      `[mln-${errors.Code.DESTRUCT_TIMEOUT}] ${errors.Description.DESTRUCT_TIMEOUT}`,
+    );
+    expect(order).toEqual(["a"]);
+    expect(child.destructed).toBeTruthy();
+    expect(root.destructed).toBeTruthy();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  });
+
+  test("synchronous destruct destructs every child", () => {
+    const root = new tree.Node();
+    const children = [new tree.Node(), new tree.Node(), new tree.Node()];
+    children.forEach((child) => root.insert(child));
+    root.destructor();
+    children.forEach((child) => {
+      expect(child.destructed).toBeTruthy();
+      expect(logNS.undestructed.has(child.uid)).toBeFalsy();
+    });
+  });
+});
+
+describe("Node destruct failure recovery", () => {
+  /**
+   * Node child class which [destruct] throws until it is fixed.
+   */
+  class FlakyNode extends tree.Node {
+    /**
+     * Whether [destruct] throws.
+     */
+    public broken = true;
+
+    /**
+     * @override
+     */
+    protected [destruct]() {
+      if (this.broken) {
+        throw new Error("FlakyNode test error.");
+      }
+      super[destruct]();
+    }
+  }
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+  });
+
+  test("child failure keeps the subtree consistent", () => {
+    const root = new tree.Node();
+    const flaky = new FlakyNode();
+    const last = new tree.Node();
+    root.insert(flaky);
+    root.insert(last);
+    expect(() => root.destructor()).toThrow("FlakyNode test error.");
+    expect(last.destructed).toBeTruthy();
+    expect(flaky.destructed).toEqual(false);
+    expect(root.destructed).toEqual(false);
+    expect(root.children).toEqual([flaky]);
+    expect(flaky.parent).toEqual(root);
+    expect(logs.failedDestructs()).toEqual(
+      expect.arrayContaining([root, flaky]),
+    );
+
+    flaky.broken = false;
+    root.destructor();
+    expect(flaky.destructed).toBeTruthy();
+    expect(root.destructed).toBeTruthy();
+    expect(logs.failedDestructs()).not.toContain(root);
+    expect(logs.failedDestructs()).not.toContain(flaky);
+  });
+});
+
+describe("Node inspection", () => {
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+  });
+
+  test("snapshot reports listeners and relations", () => {
+    const root = new tree.Node();
+    const child = new tree.Node();
+    const callback = () => undefined;
+    root.insert(child);
+    root.listen("change", callback);
+    root.listen("change", () => undefined, { capture: true });
+    root.listen("remove", callback);
+    root.unlisten("remove", callback);
+    expect(root.inspect()).toEqual({
+      uid: root.uid,
+      className: "Node",
+      constructed: root.constructed,
+      destructed: false,
+      listeners: { change: 2 },
+      parent: null,
+      children: [child.uid],
+    });
+    expect(child.inspect().parent).toEqual(root.uid);
+    expect(JSON.parse(JSON.stringify(child))).toEqual({
+      uid: child.uid,
+      className: "Node",
+      constructed: child.constructed.toISOString(),
+      destructed: false,
+      listeners: {},
+      parent: root.uid,
+      children: [],
+    });
+    root.destructor();
+    expect(child.inspect()).toEqual({
+      uid: child.uid,
+      className: "Node",
+      constructed: child.constructed,
+      destructed: child.destructed,
+      listeners: {},
+      parent: null,
+      children: [],
+    });
+  });
+
+  test("util.inspect outputs class name and snapshot", () => {
+    const node = new tree.Node();
+    const output = util.inspect(node);
+    expect(output.indexOf("Node {")).toEqual(0);
+    expect(output).toContain(`uid: '${node.uid}'`);
+    expect(output).toContain("children: []");
+    expect(util.inspect({ node }, { depth: 0 })).toContain("[Node]");
+    node.destructor();
+  });
+});
+
+describe("Node pooling", () => {
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+  });
+
+  test("recycled node gets fresh index and listeners", () => {
+    const pool = new logs.Pool({ factory: tree.Node });
+    const root = pool.acquire();
+    const child = pool.acquire();
+    root.insert(child);
+    root.listen("change", () => undefined);
+    pool.release(root);
+    const recycled = pool.acquire();
+    expect(recycled).toBe(root);
+    expect(recycled.inspect()).toEqual({
+      uid: recycled.uid,
+      className: "Node",
+      constructed: recycled.constructed,
+      destructed: false,
+      listeners: {},
+      parent: null,
+      children: [],
+    });
+    recycled.insert(pool.acquire());
+    expect(recycled.children.length).toEqual(1);
+    recycled.destructor();
+    pool.destructor();
+  });
+});
+
+describe("Node use after destruct", () => {
+  const code = `[mln-${errors.Code.DESTRUCTED_USE}] ${errors.Description.DESTRUCTED_USE}`;
+  let node: tree.Node;
+  let alive: tree.Node;
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+    node = new tree.Node();
+    alive = new tree.Node();
+    node.destructor();
+  });
+
+  afterAll(() => {
+    alive.destructor();
+  });
+
+  test("destructed listenable methods throw", () => {
+    const callback = () => undefined;
+    expect(() => node.listen("change", callback)).toThrow(code);
+    expect(() => node.unlisten("change", callback)).toThrow(code);
+    expect(() => node.dispatch("change")).toThrow(code);
+  });
+
+  test("destructed node methods and properties throw", () => {
+    expect(() => node.insert(new tree.Node())).toThrow(code);
+    expect(() => node.parent).toThrow(code);
+    expect(() => node.children).toThrow(code);
+    expect(() => node.root).toThrow(code);
+    expect(() => node.connected).toThrow(code);
+  });
+
+  test("destructed node arguments throw", () => {
+    expect(() => alive.insert(node)).toThrow(code);
+    expect(() => alive.remove(node)).toThrow(code);
+    expect(alive.children).toEqual([]);
+  });
+});
+
+describe("Node destruct-order dependencies", () => {
+  const code = `[mln-${errors.Code.DESTRUCT_CYCLE}] ${errors.Description.DESTRUCT_CYCLE}`;
+
+  beforeAll(() => {
+    // mock buffer for test
+    const buffer = new TestBuffer();
+    jest.spyOn(buffer, "add").mockImplementation(() => Promise.resolve(true));
+    logs.setBuffer(buffer);
+  });
+
+  test("unrelated dependent is destructed before the node", () => {
+    const node = new tree.Node();
+    const child = new tree.Node();
+    const dependent = new tree.Node();
+    node.insert(child);
+    dependent.addDependency(child);
+    node.destructor();
+    expect(dependent.destructed).toBeTruthy();
+    expect(child.destructed).toBeTruthy();
+  });
+
+  test("cycle through the nodes relations is detected", () => {
+    const parent = new tree.Node();
+    const child = new tree.Node();
+    parent.insert(child);
+    parent.addDependency(child);
+    expect(() => child.destructor()).toThrow(code);
+    expect(parent.destructed).toBeFalsy();
+    expect(child.destructed).toBeFalsy();
+    expect(logs.failedDestructs()).toContain(parent);
+    expect(logs.failedDestructs()).toContain(child);
+    parent.removeDependency(child);
+    parent.destructor();
+    expect(parent.destructed).toBeTruthy();
+    expect(child.destructed).toBeTruthy();
+  });
+});
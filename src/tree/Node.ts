@@ -13,8 +13,18 @@ export namespace tree {
   import Listenable = eventsNS.Listenable;
   import construct = symbolsNS.construct;
   import destruct = symbolsNS.destruct;
+  import destructNestedAsync = symbolsNS.destructNestedAsync;
   import nodes = eventsNS.nodes;
 
+  /**
+   * Structured snapshot of the {@link Node} object state. Extends the
+   * listenable snapshot with the parent and children nodes uids.
+   */
+  export interface NodeSnapshot extends eventsNS.ListenableSnapshot {
+    parent: null | string;
+    children: Array<string>;
+  }
+
   /**
    * Returns node's index object.
    */
@@ -72,13 +82,16 @@ export namespace tree {
    * As a structure it additionally hosts references to the tree root node,
    * parent, previous and next nodes, and children nodes array. There is also a
    * flag which determine whether the node is connected to some tree or not.
+   * Methods and properties of the destructed node, as well as the destructed
+   * nodes passed as arguments, throw the `DESTRUCTED_USE` error.
    */
-  export class Node extends Listenable {
+  export class Node<Options = unknown> extends Listenable<Options> {
     /**
      * Read-only property returns a boolean indicating whether the node is
      * connected to the tree.
      */
     get connected(): boolean {
+      logNS.assertUndestructed(this, "connected");
       const index = getIndexObject(this);
       return index.parent || index.children.length ? true : false;
     }
@@ -88,6 +101,7 @@ export namespace tree {
      * and reference to itself otherwise.
      */
     get root(): Node {
+      logNS.assertUndestructed(this, "root");
       let root: Node;
       let parent: Node | undefined;
       const index = getIndexObject(this);
@@ -104,6 +118,7 @@ export namespace tree {
      * Read-only property returns a parent node if exist, null otherwise.
      */
     get parent(): Node | null {
+      logNS.assertUndestructed(this, "parent");
       const index = getIndexObject(this);
       return index.parent || null;
     }
@@ -113,6 +128,7 @@ export namespace tree {
      * if it exists, null otherwise.
      */
     get next(): Node | null {
+      logNS.assertUndestructed(this, "next");
       const index = getIndexObject(this);
       const parent = index.parent;
       if (parent) {
@@ -129,6 +145,7 @@ export namespace tree {
      * array if it exists, null otherwise.
      */
     get previous(): Node | null {
+      logNS.assertUndestructed(this, "previous");
       const index = getIndexObject(this);
       const parent = index.parent;
       if (parent) {
@@ -145,6 +162,7 @@ export namespace tree {
      * any child nodes.
      */
     get children(): Array<Node> {
+      logNS.assertUndestructed(this, "children");
       const index = getIndexObject(this);
       const children: Array<Node> = [];
       for (let i = 0; i < index.children.length; i++) {
@@ -156,16 +174,16 @@ export namespace tree {
     /**
      * @override
      */
-    protected [construct](): void {
-      super[construct]();
-      this.logger.trace(logNS.message.getCheckpoint("construct", "Node"));
+    protected [construct](options?: Options): void {
+      super[construct](options);
+      this.logger.trace(() => logNS.message.getCheckpoint("construct", "Node"));
 
       // construct new node index and add it to the internal state
       nodes.set(this, {
         parent: undefined,
         children: [],
       });
-      this.logger.debug(
+      this.logger.debug(() =>
         logNS.message.getCalled(
           `nodeIndex[${this.uid}]`,
           "NodeIndex",
@@ -173,7 +191,7 @@ export namespace tree {
           [],
         ),
       );
-      this.logger.debug(
+      this.logger.debug(() =>
         logNS.message.getCalled(
           "nodes",
           "Map",
@@ -188,22 +206,24 @@ export namespace tree {
      * @override
      */
     protected [destruct](): void {
-      this.logger.trace(logNS.message.getCheckpoint("destruct", "Node"));
+      this.logger.trace(() => logNS.message.getCheckpoint("destruct", "Node"));
 
-      // get current node index object
+      // get current node index object and destruct children in reverse
+      // order (each child removes itself from the children list)
       const curIndex = getIndexObject(this);
-      for (let i = 0; i < curIndex.children.length; i++) {
-        curIndex.children[i].destructor();
-      }
+      [...curIndex.children].reverse().forEach((child) => {
+        child.destructor();
+      });
 
       // remove current node from the parent if specified
-      if (curIndex.parent) {
-        const parIndex = getIndexObject(curIndex.parent);
+      const parent = curIndex.parent;
+      if (parent) {
+        const parIndex = getIndexObject(parent);
         const index = parIndex.children.indexOf(this);
         parIndex.children.splice(index, 1);
-        this.logger.debug(
+        this.logger.debug(() =>
           logNS.message.getCalled(
-            `nodeIndex[${curIndex.parent.uid}].children`,
+            `nodeIndex[${parent.uid}].children`,
             "Array",
             "splice",
             [index, 1],
@@ -213,7 +233,7 @@ export namespace tree {
 
       // remove current node index from the internal state
       nodes.delete(this);
-      this.logger.debug(
+      this.logger.debug(() =>
         logNS.message.getCalled(
           "nodes",
           "Map",
@@ -225,6 +245,48 @@ export namespace tree {
       super[destruct]();
     }
 
+    /**
+     * @override
+     */
+    public inspect(): NodeSnapshot {
+      const index = nodes.get(this);
+      return {
+        ...super.inspect(),
+        parent: index && index.parent ? index.parent.uid : null,
+        children: index ? index.children.map((child) => child.uid) : [],
+      };
+    }
+
+    /**
+     * Awaits asynchronous destruction of the children in reverse order, each
+     * with its own timeout. Children failures don't stop the destruction of
+     * the rest of the subtree and are rejected together as the
+     * `DESTRUCT_ASYNC` aggregate error.
+     *
+     * @override
+     */
+    protected async [destructNestedAsync](timeout: number): Promise<void> {
+      this.logger.trace(() =>
+        logNS.message.getCheckpoint("destructNestedAsync", "Node"),
+      );
+      const failures: Array<unknown> = [];
+      for (const child of this.children.reverse()) {
+        try {
+          await child.destructorAsync(timeout);
+        } catch (err) {
+          failures.push(err);
+        }
+      }
+      await super[destructNestedAsync](timeout);
+      if (failures.length) {
+        throw new errors.AggregateError(
+          errors.Code.DESTRUCT_ASYNC,
+          errors.Description.DESTRUCT_ASYNC,
+          failures,
+        );
+      }
+    }
+
     /**
      * Removes `child` node from the children list if it is already there, then
      * inserts it as a child `before` a reference node, if specified, and the last
@@ -234,78 +296,83 @@ export namespace tree {
      * @param before Reference node to insert before.
      */
     insert(child: Node, before?: Node): Node {
-      logNS.thread.start();
-      this.logger.trace(
-        logNS.message.getCheckpoint(
-          "insert",
-          JSON.stringify({
-            child: `{${child.uid}}`,
-            before: before ? `{${before.uid}}` : undefined,
-          }),
-        ),
-      );
-
-      // assertion
-      before && assertChild(this, before);
-
-      // get current node (parent) index and child node index
-      const pIndex = getIndexObject(this);
-      const cIndex = getIndexObject(child);
-
-      // try to find child in the existing children list
-      const children = pIndex.children;
-      const i = children.indexOf(child);
-
-      // remove child from the children list if exist
-      if (~i) {
-        children.splice(i, 1);
-        this.logger.debug(
-          logNS.message.getCalled(
-            `nodeIndex[${this.uid}].children`,
-            "Array",
-            "splice",
-            [i, 1],
-          ),
-        );
+      logNS.assertUndestructed(this, "insert");
+      logNS.assertUndestructed(child, "insert");
+      if (before) {
+        logNS.assertUndestructed(before, "insert");
       }
-      if (!before) {
-        // push child to the end of the children list if before is not specified
-        children.push(child);
-        this.logger.debug(
-          logNS.message.getCalled(
-            `nodeIndex[${this.uid}].children`,
-            "Array",
-            "push",
-            [`{${child.uid}}`],
+      return logNS.thread.run(() => {
+        this.logger.trace(() =>
+          logNS.message.getCheckpoint(
+            "insert",
+            JSON.stringify({
+              child: `{${child.uid}}`,
+              before: before ? `{${before.uid}}` : undefined,
+            }),
           ),
         );
-      } else {
-        // add child before the specified node
-        const idx = children.indexOf(before);
-        children.splice(idx, 0, child);
-        this.logger.debug(
+
+        // assertion
+        before && assertChild(this, before);
+
+        // get current node (parent) index and child node index
+        const pIndex = getIndexObject(this);
+        const cIndex = getIndexObject(child);
+
+        // try to find child in the existing children list
+        const children = pIndex.children;
+        const i = children.indexOf(child);
+
+        // remove child from the children list if exist
+        if (~i) {
+          children.splice(i, 1);
+          this.logger.debug(() =>
+            logNS.message.getCalled(
+              `nodeIndex[${this.uid}].children`,
+              "Array",
+              "splice",
+              [i, 1],
+            ),
+          );
+        }
+        if (!before) {
+          // push child to the end of the children list if before is not specified
+          children.push(child);
+          this.logger.debug(() =>
+            logNS.message.getCalled(
+              `nodeIndex[${this.uid}].children`,
+              "Array",
+              "push",
+              [`{${child.uid}}`],
+            ),
+          );
+        } else {
+          // add child before the specified node
+          const idx = children.indexOf(before);
+          children.splice(idx, 0, child);
+          this.logger.debug(() =>
+            logNS.message.getCalled(
+              `nodeIndex[${this.uid}].children`,
+              "Array",
+              "splice",
+              [idx, 0, `{${child.uid}}`],
+            ),
+          );
+        }
+
+        // set current node as a parent for child
+        cIndex.parent = this;
+        this.logger.debug(() =>
           logNS.message.getCalled(
-            `nodeIndex[${this.uid}].children`,
-            "Array",
-            "splice",
-            [idx, 0, `{${child.uid}}`],
+            `nodeIndex[${child.uid}]`,
+            "NodeIndex",
+            "parent",
+            [`{${this.uid}}`],
           ),
         );
-      }
-
-      // set current node as a parent for child
-      cIndex.parent = this;
-      this.logger.debug(
-        logNS.message.getCalled(
-          `nodeIndex[${child.uid}]`,
-          "NodeIndex",
-          "parent",
-          [`{${this.uid}}`],
-        ),
-      );
-      this.logger.info(logNS.message.getInserted(child.uid, before?.uid));
-      logNS.thread.stop();
-      return child;
+        this.logger.info(logNS.message.getInserted(child.uid, before?.uid));
+        return child;
+      });
     }
 
     /**
@@ -316,73 +383,79 @@ export namespace tree {
      * @param to Node to replace with.
      */
     replace(existing: Node, to: Node): Node {
-      logNS.thread.start();
-      this.logger.trace(
-        logNS.message.getCheckpoint(
-          "replace",
-          JSON.stringify({
-            existing: `{${existing.uid}}`,
-            to: `{${to.uid}}`,
-          }),
-        ),
-      );
+      logNS.assertUndestructed(this, "replace");
+      logNS.assertUndestructed(existing, "replace");
+      logNS.assertUndestructed(to, "replace");
+      return logNS.thread.run(() => {
+        this.logger.trace(() =>
+          logNS.message.getCheckpoint(
+            "replace",
+            JSON.stringify({
+              existing: `{${existing.uid}}`,
+              to: `{${to.uid}}`,
+            }),
+          ),
+        );
 
-      // assertion
-      assertChild(this, existing);
+        // assertion
+        assertChild(this, existing);
+
+        // get current node (parent) index and child nodes indices
+        const pIndex = getIndexObject(this);
+        const eIndex = getIndexObject(existing);
+        const tIndex = getIndexObject(to);
+        const children = pIndex.children;
+
+        // remove to-node from parent children list if exist
+        if (~children.indexOf(to)) {
+          const idx = children.indexOf(to);
+          children.splice(idx, 1);
+          this.logger.debug(() =>
+            logNS.message.getCalled(
+              `nodeIndex[${this.uid}].children`,
+              "Array",
+              "splice",
+              [idx, 1],
+            ),
+          );
+        }
 
-      // get current node (parent) index and child nodes indices
-      const pIndex = getIndexObject(this);
-      const eIndex = getIndexObject(existing);
-      const tIndex = getIndexObject(to);
-      const children = pIndex.children;
+        // unset existing-node parent field
+        eIndex.parent = undefined;
+        this.logger.debug(() =>
+          logNS.message.getCalled(
+            `nodeIndex[${existing.uid}]`,
+            "NodeIndex",
+            "parent",
+            [undefined],
+          ),
+        );
 
-      // remove to-node from parent children list if exist
-      if (~children.indexOf(to)) {
-        const idx = children.indexOf(to);
-        children.splice(idx, 1);
-        this.logger.debug(
+        // set to-node parent field
+        tIndex.parent = this;
+        this.logger.debug(() =>
+          logNS.message.getCalled(
+            `nodeIndex[${to.uid}]`,
+            "NodeIndex",
+            "parent",
+            [`{${this.uid}}`],
+          ),
+        );
+
+        // replace existing-node to to-node
+        const idx = children.indexOf(existing);
+        children.splice(idx, 1, to);
+        this.logger.debug(() =>
           logNS.message.getCalled(
             `nodeIndex[${this.uid}].children`,
             "Array",
             "splice",
-            [idx, 1],
+            [idx, 1, `{${to.uid}}`],
           ),
         );
-      }
-
-      // unset existing-node parent field
-      eIndex.parent = undefined;
-      this.logger.debug(
-        logNS.message.getCalled(
-          `nodeIndex[${existing.uid}]`,
-          "NodeIndex",
-          "parent",
-          [undefined],
-        ),
-      );
-
-      // set to-node parent field
-      tIndex.parent = this;
-      this.logger.debug(
-        logNS.message.getCalled(`nodeIndex[${to.uid}]`, "NodeIndex", "parent", [
-          `{${this.uid}}`,
-        ]),
-      );
-
-      // replace existing-node to to-node
-      const idx = children.indexOf(existing);
-      children.splice(idx, 1, to);
-      this.logger.debug(
-        logNS.message.getCalled(
-          `nodeIndex[${this.uid}].children`,
-          "Array",
-          "splice",
-          [idx, 1, `{${to.uid}}`],
-        ),
-      );
-      this.logger.info(logNS.message.getReplaced(existing.uid, to.uid));
-      logNS.thread.stop();
-      return existing;
+        this.logger.info(logNS.message.getReplaced(existing.uid, to.uid));
+        return existing;
+      });
     }
 
     /**
@@ -391,48 +464,50 @@ export namespace tree {
      * @param child Child node to remove.
      */
     remove(child: Node): Node {
-      logNS.thread.start();
-      this.logger.trace(
-        logNS.message.getCheckpoint(
-          "remove",
-          JSON.stringify({
-            child: `{${child.uid}}`,
-          }),
-        ),
-      );
+      logNS.assertUndestructed(this, "remove");
+      logNS.assertUndestructed(child, "remove");
+      return logNS.thread.run(() => {
+        this.logger.trace(() =>
+          logNS.message.getCheckpoint(
+            "remove",
+            JSON.stringify({
+              child: `{${child.uid}}`,
+            }),
+          ),
+        );
 
-      // assertions
-      assertChild(this, child);
+        // assertions
+        assertChild(this, child);
 
-      // get parent and child indices
-      const pIndex = getIndexObject(this);
-      const cIndex = getIndexObject(child);
+        // get parent and child indices
+        const pIndex = getIndexObject(this);
+        const cIndex = getIndexObject(child);
 
-      // remove child node from parent children list
-      const idx = pIndex.children.indexOf(child);
-      pIndex.children.splice(idx, 1);
-      this.logger.debug(
-        logNS.message.getCalled(
-          `nodeIndex[${this.uid}].children`,
-          "Array",
-          "splice",
-          [idx, 1],
-        ),
-      );
+        // remove child node from parent children list
+        const idx = pIndex.children.indexOf(child);
+        pIndex.children.splice(idx, 1);
+        this.logger.debug(() =>
+          logNS.message.getCalled(
+            `nodeIndex[${this.uid}].children`,
+            "Array",
+            "splice",
+            [idx, 1],
+          ),
+        );
 
-      // unset child node parent field
-      cIndex.parent = undefined;
-      this.logger.debug(
-        logNS.message.getCalled(
-          `nodeIndex[${child.uid}]`,
-          "NodeIndex",
-          "parent",
-          [undefined],
-        ),
-      );
-      this.logger.info(logNS.message.getRemoved(child.uid));
-      logNS.thread.stop();
-      return child;
+        // unset child node parent field
+        cIndex.parent = undefined;
+        this.logger.debug(() =>
+          logNS.message.getCalled(
+            `nodeIndex[${child.uid}]`,
+            "NodeIndex",
+            "parent",
+            [undefined],
+          ),
+        );
+        this.logger.info(logNS.message.getRemoved(child.uid));
+        return child;
+      });
     }
   }
 }
@@ -10,4 +10,5 @@
 import { tree as ns } from "./Node";
 export namespace tree {
   export import Node = ns.Node;
+  export import NodeSnapshot = ns.NodeSnapshot;
 }